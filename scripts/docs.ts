@@ -0,0 +1,469 @@
+import { readdir, readFile, rm, writeFile, mkdir } from "node:fs/promises";
+import path from "node:path";
+import { JSONSchema, TSESLint } from "@typescript-eslint/utils";
+import * as prettier from "prettier";
+import * as ts from "typescript";
+import plugin from "../src";
+
+type Rule = TSESLint.RuleModule<string, readonly unknown[]>;
+type Example = {
+	code: string;
+	filename?: string;
+	name?: string;
+	options?: string;
+};
+type Examples = { invalid: Example[]; valid: Example[] };
+
+const ROOT = path.resolve(import.meta.dir, "..");
+const DOCS_DIRECTORY = path.join(ROOT, "docs");
+const RULES_DIRECTORY = path.join(ROOT, "src", "rules");
+const TESTS_DIRECTORY = path.join(ROOT, "tests");
+const RULE_IMPORT_PREFIX = "../src/rules/";
+const MAX_EXAMPLES = 3;
+const PAGE_PREFIX = "eslint-";
+const GENERATED_NOTICE =
+	"<!-- Generated by `bun run docs` from rule metadata and tests. Do not edit by hand. -->";
+const JSX_PATTERN = /<\/?[A-Za-z][\w.-]*[\s/>]/u;
+
+// Page names mirror `createRule`'s docs URL so links resolve one-to-one.
+const pageFilename = (name: string) => `${PAGE_PREFIX}${name}.md`;
+
+const loadRuleFiles = async () => {
+	const files = (await readdir(RULES_DIRECTORY))
+		.filter((file) => file.endsWith(".ts"))
+		.map((file) => path.basename(file, ".ts"));
+	const modules = await Promise.all(
+		files.map(async (file) => {
+			const exports: Record<string, unknown> = await import(
+				path.join(RULES_DIRECTORY, `${file}.ts`)
+			);
+
+			return { exports, file };
+		})
+	);
+	const ruleNames = new Map<string, string>();
+	for (const { exports, file } of modules) {
+		const values = Object.values(exports);
+		const entry = Object.entries(plugin.rules).find(
+			([, rule]) => !rule.meta.deprecated && values.includes(rule)
+		);
+		if (entry) ruleNames.set(file, entry[0]);
+	}
+
+	return ruleNames;
+};
+
+const propertiesOf = (node: ts.ObjectLiteralExpression) =>
+	new Map(
+		node.properties.flatMap((property) =>
+			ts.isPropertyAssignment(property) &&
+			(ts.isIdentifier(property.name) ||
+				ts.isStringLiteral(property.name))
+				? [[property.name.text, property.initializer]]
+				: []
+		)
+	);
+
+// Top-level `const` strings a test file builds its cases from.
+const stringConstants = (sourceFile: ts.SourceFile) =>
+	new Map(
+		sourceFile.statements.flatMap((statement) =>
+			ts.isVariableStatement(statement) &&
+			statement.declarationList.flags & ts.NodeFlags.Const
+				? statement.declarationList.declarations.flatMap(
+						(declaration) =>
+							ts.isIdentifier(declaration.name) &&
+							declaration.initializer &&
+							(ts.isStringLiteral(declaration.initializer) ||
+								ts.isNoSubstitutionTemplateLiteral(
+									declaration.initializer
+								))
+								? [
+										[
+											declaration.name.text,
+											declaration.initializer.text
+										]
+									]
+								: []
+					)
+				: []
+		)
+	);
+
+const staticText = (
+	node: ts.Expression | undefined,
+	constants: Map<string, string>
+) => {
+	if (!node) return undefined;
+	if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node))
+		return node.text;
+	if (!ts.isTemplateExpression(node)) return undefined;
+	const spans = node.templateSpans.map(({ expression, literal }) =>
+		ts.isIdentifier(expression) && constants.has(expression.text)
+			? `${constants.get(expression.text)}${literal.text}`
+			: undefined
+	);
+
+	return spans.every((span) => span !== undefined)
+		? `${node.head.text}${spans.join("")}`
+		: undefined;
+};
+
+const exampleFrom = (
+	element: ts.Expression,
+	constants: Map<string, string>
+) => {
+	const code = staticText(element, constants);
+	if (code !== undefined) return { code };
+	if (!ts.isObjectLiteralExpression(element)) return undefined;
+	const properties = propertiesOf(element);
+	const objectCode = staticText(properties.get("code"), constants);
+	if (objectCode === undefined) return undefined;
+	const example: Example = {
+		code: objectCode,
+		filename: staticText(properties.get("filename"), constants),
+		name: staticText(properties.get("name"), constants),
+		options: properties.get("options")?.getText().replace(/\s+/gu, " ")
+	};
+
+	return example;
+};
+
+const casesOf = (
+	node: ts.Expression | undefined,
+	constants: Map<string, string>
+) =>
+	node && ts.isArrayLiteralExpression(node)
+		? node.elements.flatMap(
+				(element) => exampleFrom(element, constants) ?? []
+			)
+		: [];
+
+const ruleImports = (sourceFile: ts.SourceFile) =>
+	new Map(
+		sourceFile.statements.flatMap((statement) => {
+			if (
+				!ts.isImportDeclaration(statement) ||
+				!ts.isStringLiteral(statement.moduleSpecifier) ||
+				!statement.moduleSpecifier.text.startsWith(RULE_IMPORT_PREFIX)
+			)
+				return [];
+			const file = statement.moduleSpecifier.text.slice(
+				RULE_IMPORT_PREFIX.length
+			);
+			const bindings = statement.importClause?.namedBindings;
+
+			return bindings && ts.isNamedImports(bindings)
+				? bindings.elements.map((element) => [element.name.text, file])
+				: [];
+		})
+	);
+
+const collectTestExamples = async (ruleNames: Map<string, string>) => {
+	const examples = new Map<string, Examples>();
+	const files = (await readdir(TESTS_DIRECTORY)).filter((file) =>
+		file.endsWith(".test.ts")
+	);
+	const sources = await Promise.all(
+		files.map((file) => readFile(path.join(TESTS_DIRECTORY, file), "utf8"))
+	);
+	const addRunCall = (
+		node: ts.CallExpression,
+		imports: Map<string, string>,
+		constants: Map<string, string>
+	) => {
+		const [, ruleArgument, casesArgument] = node.arguments;
+		if (
+			!ruleArgument ||
+			!ts.isIdentifier(ruleArgument) ||
+			!casesArgument ||
+			!ts.isObjectLiteralExpression(casesArgument)
+		)
+			return;
+		const file = imports.get(ruleArgument.text);
+		const name = file && ruleNames.get(file);
+		if (!name) return;
+		const cases = propertiesOf(casesArgument);
+		const existing = examples.get(name) ?? { invalid: [], valid: [] };
+		existing.invalid.push(...casesOf(cases.get("invalid"), constants));
+		existing.valid.push(...casesOf(cases.get("valid"), constants));
+		examples.set(name, existing);
+	};
+
+	for (const [index, source] of sources.entries()) {
+		const sourceFile = ts.createSourceFile(
+			files[index] ?? "test.ts",
+			source,
+			ts.ScriptTarget.Latest,
+			true
+		);
+		const imports = ruleImports(sourceFile);
+		const constants = stringConstants(sourceFile);
+		const visit = (node: ts.Node) => {
+			if (
+				ts.isCallExpression(node) &&
+				ts.isPropertyAccessExpression(node.expression) &&
+				node.expression.name.text === "run"
+			)
+				addRunCall(node, imports, constants);
+			ts.forEachChild(node, visit);
+		};
+		visit(sourceFile);
+	}
+
+	return examples;
+};
+
+const escapeCell = (value: string) =>
+	value.replaceAll("|", "\\|").replace(/\s*\n\s*/gu, " ");
+
+const describeType = (schema: JSONSchema.JSONSchema4): string => {
+	if ("enum" in schema && Array.isArray(schema.enum))
+		return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+	if ("anyOf" in schema && schema.anyOf)
+		return schema.anyOf.map(describeType).join(" | ");
+	if ("oneOf" in schema && schema.oneOf)
+		return schema.oneOf.map(describeType).join(" | ");
+	if (schema.type === "array" && schema.items && !Array.isArray(schema.items))
+		return `${describeType(schema.items)}[]`;
+	if (Array.isArray(schema.type)) return schema.type.join(" | ");
+
+	return schema.type ?? "unknown";
+};
+
+const formatDefault = (value: unknown) =>
+	value === undefined ? "" : `\`${JSON.stringify(value)}\``;
+
+const optionRows = (rule: Rule) => {
+	const schemas = Array.isArray(rule.meta.schema)
+		? rule.meta.schema
+		: [rule.meta.schema];
+	const defaults: readonly unknown[] = rule.defaultOptions ?? [];
+
+	return schemas.flatMap((schema: JSONSchema.JSONSchema4, index) => {
+		const fallback: unknown = defaults[index];
+		if (schema.type !== "object" || !schema.properties)
+			return [
+				[
+					`Position ${index + 1}`,
+					describeType(schema),
+					formatDefault(fallback)
+				]
+			];
+
+		return Object.entries(schema.properties).map(([name, property]) => [
+			`\`${name}\``,
+			describeType(property),
+			formatDefault(
+				typeof fallback === "object" && fallback !== null
+					? Object.entries(fallback).find(
+							([key]) => key === name
+						)?.[1]
+					: undefined
+			)
+		]);
+	});
+};
+
+const optionsSection = (rule: Rule) => {
+	const rows = optionRows(rule);
+	if (rows.length === 0)
+		return ["## Options", "", "This rule has no options."];
+
+	return [
+		"## Options",
+		"",
+		"| Option | Type | Default |",
+		"| --- | --- | --- |",
+		...rows.map(
+			(cells) =>
+				`| ${cells.map((cell) => escapeCell(`${cell}`)).join(" | ")} |`
+		)
+	];
+};
+
+const fenceLanguage = ({ code, filename }: Example) => {
+	const extension = filename ? path.extname(filename).slice(1) : "";
+	if (extension) return extension;
+
+	return JSX_PATTERN.test(code) ? "tsx" : "ts";
+};
+
+const exampleCaption = ({ name, options }: Example) => {
+	const title = name ? `${name[0]?.toUpperCase()}${name.slice(1)}` : "";
+	const configured = options ? `options \`${options}\`` : "";
+	if (title && configured) return [`${title} (${configured}):`, ""];
+	if (title) return [`${title}:`, ""];
+
+	return configured ? [`With ${configured}:`, ""] : [];
+};
+
+const exampleBlock = (example: Example) => {
+	const fence = example.code.includes("```") ? "````" : "```";
+
+	return [
+		...exampleCaption(example),
+		`${fence}${fenceLanguage(example)}`,
+		example.code,
+		fence,
+		""
+	];
+};
+
+const examplesSection = (examples: Examples | undefined) => {
+	const invalid = examples?.invalid.slice(0, MAX_EXAMPLES) ?? [];
+	const valid = examples?.valid.slice(0, MAX_EXAMPLES) ?? [];
+	if (invalid.length === 0 && valid.length === 0) return [];
+
+	return [
+		"## Examples",
+		"",
+		...(invalid.length > 0
+			? ["### Incorrect", "", ...invalid.flatMap(exampleBlock)]
+			: []),
+		...(valid.length > 0
+			? ["### Correct", "", ...valid.flatMap(exampleBlock)]
+			: [])
+	];
+};
+
+const badges = (rule: Rule) => [
+	...(rule.meta.fixable
+		? ["🔧 This rule is automatically fixable with `--fix`."]
+		: []),
+	...(rule.meta.hasSuggestions
+		? ["💡 This rule provides editor suggestions."]
+		: [])
+];
+
+const renderPage = (
+	name: string,
+	rule: Rule,
+	examples: Examples | undefined
+) => {
+	const ruleBadges = badges(rule);
+
+	return [
+		GENERATED_NOTICE,
+		"",
+		`# \`absolute/${name}\``,
+		"",
+		rule.meta.docs?.description ?? "",
+		"",
+		...ruleBadges.flatMap((badge) => [badge, ""]),
+		...optionsSection(rule),
+		"",
+		...examplesSection(examples)
+	].join("\n");
+};
+
+/**
+ * Renders one Prettier-formatted markdown page per non-deprecated rule,
+ * keyed by the page filename inside `docs/`.
+ */
+export const renderRuleDocs = async () => {
+	const ruleNames = await loadRuleFiles();
+	const examples = await collectTestExamples(ruleNames);
+	const prettierConfig =
+		(await prettier.resolveConfig(path.join(ROOT, "README.md"))) ?? {};
+	const rules = Object.entries(plugin.rules).filter(
+		([, rule]) => !rule.meta.deprecated
+	);
+	const contents = await Promise.all(
+		rules.map(([name, rule]) =>
+			prettier.format(renderPage(name, rule, examples.get(name)), {
+				...prettierConfig,
+				parser: "markdown"
+			})
+		)
+	);
+	const pages = new Map<string, string>();
+	rules.forEach(([name], index) =>
+		pages.set(pageFilename(name), contents[index] ?? "")
+	);
+
+	return pages;
+};
+
+const readExistingDocs = async () => {
+	const files = await readdir(DOCS_DIRECTORY).catch(() => []);
+	const pages = files.filter(
+		(file) => file.startsWith(PAGE_PREFIX) && file.endsWith(".md")
+	);
+	const contents = await Promise.all(
+		pages.map((file) => readFile(path.join(DOCS_DIRECTORY, file), "utf8"))
+	);
+
+	return new Map(pages.map((file, index) => [file, contents[index]]));
+};
+
+/**
+ * Lists every page that is missing, stale, or no longer backed by a rule.
+ */
+export const findDocsDrift = async (pages: Map<string, string>) => {
+	const existing = await readExistingDocs();
+	const changed = [...pages]
+		.filter(([file, content]) => existing.get(file) !== content)
+		.map(([file]) => file);
+	const orphaned = [...existing.keys()].filter((file) => !pages.has(file));
+
+	return [...changed, ...orphaned].sort();
+};
+
+/**
+ * Lists every rule whose tests yield no static valid or no static invalid
+ * example, since its page would otherwise silently lose that section.
+ */
+export const findMissingExamples = async () => {
+	const examples = await collectTestExamples(await loadRuleFiles());
+
+	return Object.entries(plugin.rules)
+		.filter(([name, rule]) => {
+			const ruleExamples = examples.get(name);
+
+			return (
+				!rule.meta.deprecated &&
+				(!ruleExamples?.invalid.length || !ruleExamples.valid.length)
+			);
+		})
+		.map(([name]) => name);
+};
+
+const writeDocs = async (pages: Map<string, string>) => {
+	const existing = await readExistingDocs();
+	await mkdir(DOCS_DIRECTORY, { recursive: true });
+	await Promise.all([
+		...[...pages].map(([file, content]) =>
+			writeFile(path.join(DOCS_DIRECTORY, file), content)
+		),
+		...[...existing.keys()]
+			.filter((file) => !pages.has(file))
+			.map((file) => rm(path.join(DOCS_DIRECTORY, file)))
+	]);
+};
+
+const main = async () => {
+	const pages = await renderRuleDocs();
+	if (!process.argv.includes("--check")) {
+		await writeDocs(pages);
+		console.log(`Wrote ${pages.size} rule pages to docs/.`);
+
+		return;
+	}
+	const drift = await findDocsDrift(pages);
+	const missing = await findMissingExamples();
+	if (drift.length > 0) {
+		console.error(
+			`Rule docs are out of date. Run \`bun run docs\` to regenerate:\n${drift.map((file) => `  docs/${file}`).join("\n")}`
+		);
+		process.exitCode = 1;
+	}
+	if (missing.length > 0) {
+		console.error(
+			`These rules have no static valid or invalid test case to document:\n${missing.map((name) => `  ${name}`).join("\n")}`
+		);
+		process.exitCode = 1;
+	}
+};
+
+if (import.meta.main) await main();
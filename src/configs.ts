@@ -0,0 +1,278 @@
+import { TSESLint } from "@typescript-eslint/utils";
+
+type Config = TSESLint.FlatConfig.Config;
+type ConfigArray = TSESLint.FlatConfig.ConfigArray;
+type Rules = TSESLint.FlatConfig.Rules;
+
+export type PresetName =
+	| "a11y"
+	| "angular"
+	| "elysia"
+	| "react"
+	| "recommended"
+	| "strict"
+	| "vue";
+export type AbsoluteConfigs = Record<PresetName, ConfigArray>;
+
+const SCRIPT_FILES = ["**/*.{js,jsx,mjs,cjs,ts,tsx,mts,cts}"];
+const JSX_FILES = ["**/*.{jsx,tsx}"];
+const TYPESCRIPT_FILES = ["**/*.{ts,tsx,mts,cts}"];
+const VUE_FILES = ["**/*.vue"];
+// `.vue` is left to the `vue` preset, whose rules need the real template AST.
+const TEMPLATE_FILES = ["**/*.{html,svelte,gjs,gts}"];
+const ANGULAR_FILES = ["**/*.ts"];
+const ANGULAR_TEMPLATE_FILES = ["**/*.html"];
+// The virtual `.js` blocks the processor emits for each template.
+const ANGULAR_TEMPLATE_BLOCKS = ["**/*.html/**/*.js"];
+
+// Text-scanning rules work on any source, including the virtual `.js`
+// blocks the template-source processor emits for markup files.
+const templateA11yRules: Rules = {
+	"absolute/button-icon-is-hidden": "error",
+	"absolute/icon-button-has-accessible-name": "error"
+};
+
+// Template-visitor rules need vue-eslint-parser and stay inert elsewhere.
+const vueTemplateRules: Rules = {
+	"absolute/active-button-has-aria-state": "error",
+	"absolute/heading-order": ["error", { maxFirstLevel: 6 }],
+	"absolute/loading-indicator-has-aria-busy": "error",
+	"absolute/no-button-navigation": "error"
+};
+
+const a11yRules: Rules = {
+	...templateA11yRules,
+	...vueTemplateRules
+};
+
+const reactJsxRules: Rules = {
+	"absolute/inline-style-limit": "error",
+	"absolute/localize-react-props": "error",
+	"absolute/max-jsx-nesting": "error",
+	"absolute/no-inline-prop-types": "error",
+	"absolute/no-nested-jsx-return": "error",
+	"absolute/no-or-none-component": "error",
+	"absolute/no-unnecessary-div": "error",
+	"absolute/no-unnecessary-key": "error",
+	"absolute/separate-style-files": "error"
+};
+
+const reactStyleRules: Rules = {
+	"absolute/no-multi-style-objects": "error",
+	"absolute/no-transition-cssproperties": "error",
+	"absolute/spring-naming-convention": "error"
+};
+
+const angularRules: Rules = {
+	"absolute/angular-one-feature-per-file": "error",
+	"absolute/no-nondeterministic-render": "error"
+};
+
+// Client-side Eden rules, which also run on Vue single-file components.
+const edenRules: Rules = {
+	"absolute/eden-query-key-params": [
+		"error",
+		{ clients: ["api"], modules: [] }
+	],
+	"absolute/eden-require-error-check": [
+		"error",
+		{ clients: ["api"], modules: [] }
+	],
+	"absolute/eden-requires-tanstack-query": [
+		"error",
+		{ clients: ["api"], modules: [] }
+	]
+};
+
+const elysiaRules: Rules = {
+	...edenRules,
+	"absolute/drizzle-foreign-keys": "error",
+	"absolute/drizzle-no-query-in-loop": "error",
+	"absolute/drizzle-require-transaction": "error",
+	"absolute/drizzle-require-where": ["error", { allowWrappers: [] }],
+	"absolute/elysia-composition-boundaries": "error",
+	"absolute/elysia-hooks-before-routes": "error",
+	"absolute/elysia-no-duplicate-routes": "error",
+	"absolute/elysia-no-response-return": [
+		"error",
+		{ allowNativeResponsePaths: [] }
+	],
+	"absolute/elysia-no-throw-error": [
+		"error",
+		{ allowRegisteredErrors: false }
+	],
+	"absolute/elysia-plugin-name": "error",
+	"absolute/elysia-require-request-schemas": "error",
+	"absolute/elysia-require-response-schema": "error",
+	"absolute/elysia-route-boundaries": [
+		"error",
+		{
+			compositionFiles: [
+				"src/backend/server.ts",
+				"src/server.ts",
+				"server.ts"
+			],
+			routeDirectories: ["src/backend/routes", "src/routes", "routes"]
+		}
+	],
+	"absolute/no-import-meta-path": "error",
+	"absolute/no-unsafe-schema-types": [
+		"error",
+		{
+			allowMethods: [],
+			libraries: ["arktype", "typebox", "valibot", "zod"],
+			requireSchemaTypes: false
+		}
+	],
+	"absolute/prefer-drizzle-query-builders": "error"
+};
+
+const recommendedRules: Rules = {
+	"absolute/no-chained-type-assertions": "error",
+	"absolute/no-useless-catch": "error"
+};
+
+// Mirrors the policy this repository lints itself with.
+const strictRules: Rules = {
+	"absolute/explicit-object-types": "error",
+	"absolute/max-depth-extended": ["error", 1],
+	"absolute/min-var-length": [
+		"error",
+		{ allowedVars: ["_", "id"], minLength: 3 }
+	],
+	"absolute/no-explicit-return-type": "error",
+	"absolute/no-inline-object-types": "error",
+	"absolute/no-trivial-alias": "error",
+	"absolute/no-useless-function": "error",
+	"absolute/prefer-inline-exports": "error",
+	"absolute/sort-exports": [
+		"error",
+		{ caseSensitive: true, natural: true, order: "asc" }
+	],
+	"absolute/sort-keys-fixable": [
+		"error",
+		{ caseSensitive: true, natural: true, order: "asc" }
+	]
+};
+
+// Type-aware rules stay inert without parser services, so they only run
+// when the consumer enables a TypeScript project.
+const strictTypedRules: Rules = {
+	"absolute/no-redundant-type-annotation": "error"
+};
+
+/**
+ * Builds the flat-config presets around the plugin object so every preset
+ * registers the same `absolute` namespace that rule and processor ids use.
+ */
+export const createConfigs = (plugin: TSESLint.FlatConfig.Plugin) => {
+	const plugins: TSESLint.FlatConfig.Plugins = { absolute: plugin };
+	const templateProcessor: Config = {
+		files: TEMPLATE_FILES,
+		name: "absolute/template-source",
+		plugins,
+		processor: "absolute/template-source"
+	};
+
+	const a11y: ConfigArray = [
+		{
+			files: SCRIPT_FILES,
+			name: "absolute/a11y",
+			plugins,
+			rules: a11yRules
+		},
+		templateProcessor
+	];
+	const react: ConfigArray = [
+		{
+			files: JSX_FILES,
+			name: "absolute/react/jsx",
+			plugins,
+			rules: reactJsxRules
+		},
+		{
+			files: SCRIPT_FILES,
+			name: "absolute/react/styles",
+			plugins,
+			rules: reactStyleRules
+		}
+	];
+	const vue: ConfigArray = [
+		{
+			files: VUE_FILES,
+			name: "absolute/vue",
+			plugins,
+			rules: { ...templateA11yRules, ...vueTemplateRules }
+		}
+	];
+	const angular: ConfigArray = [
+		{
+			files: ANGULAR_FILES,
+			name: "absolute/angular",
+			plugins,
+			rules: angularRules
+		},
+		{
+			files: ANGULAR_TEMPLATE_FILES,
+			name: "absolute/angular/templates",
+			plugins,
+			processor: "absolute/template-source"
+		},
+		{
+			files: ANGULAR_TEMPLATE_BLOCKS,
+			name: "absolute/angular/template-source",
+			plugins,
+			rules: templateA11yRules
+		}
+	];
+	const elysia: ConfigArray = [
+		{
+			files: SCRIPT_FILES,
+			name: "absolute/elysia",
+			plugins,
+			rules: elysiaRules
+		},
+		{
+			files: VUE_FILES,
+			name: "absolute/elysia/vue",
+			plugins,
+			rules: edenRules
+		}
+	];
+	const recommended: ConfigArray = [
+		{
+			files: SCRIPT_FILES,
+			name: "absolute/recommended",
+			plugins,
+			rules: recommendedRules
+		},
+		...a11y
+	];
+	const strict: ConfigArray = [
+		...recommended,
+		{
+			files: SCRIPT_FILES,
+			name: "absolute/strict",
+			plugins,
+			rules: strictRules
+		},
+		{
+			files: TYPESCRIPT_FILES,
+			name: "absolute/strict/typed",
+			plugins,
+			rules: strictTypedRules
+		}
+	];
+
+	const configs: AbsoluteConfigs = {
+		a11y,
+		angular,
+		elysia,
+		react,
+		recommended,
+		strict,
+		vue
+	};
+
+	return configs;
+};
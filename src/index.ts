@@ -1,3 +1,4 @@
+import { TSESLint } from "@typescript-eslint/utils";
 import { angularOneFeaturePerFile } from "./rules/angular-one-feature-per-file";
 import { activeButtonHasAriaState } from "./rules/active-button-has-aria-state";
 import { headingOrder } from "./rules/heading-order";
@@ -8,7 +9,7 @@ import { sortKeysFixable } from "./rules/sort-keys-fixable";
 import { noTransitionCSSProperties } from "./rules/no-transition-cssproperties";
 import { noExplicitReturnTypes } from "./rules/no-explicit-return-types";
 import { maxJSXNesting } from "./rules/max-jsx-nesting";
-import { seperateStyleFiles } from "./rules/seperate-style-files";
+import { separateStyleFiles } from "./rules/separate-style-files";
 import { noUnnecessaryKey } from "./rules/no-unnecessary-key";
 import { sortExports } from "./rules/sort-exports";
 import { localizeReactProps } from "./rules/localize-react-props";
@@ -31,16 +32,44 @@ import { noTrivialAlias } from "./rules/no-trivial-alias";
 import { noUnnecessaryDiv } from "./rules/no-unnecessary-div";
 import { preferInlineExports } from "./rules/prefer-inline-exports";
 import { preferDrizzleQueryBuilders } from "./rules/prefer-drizzle-query-builders";
+import { drizzleColumnCasing } from "./rules/drizzle-column-casing";
+import { drizzleForeignKeys } from "./rules/drizzle-foreign-keys";
+import { drizzleNoQueryInLoop } from "./rules/drizzle-no-query-in-loop";
+import { drizzleRequireTransaction } from "./rules/drizzle-require-transaction";
+import { drizzleRequireWhere } from "./rules/drizzle-require-where";
 import { buttonIconIsHidden } from "./rules/button-icon-is-hidden";
 import { iconButtonHasAccessibleName } from "./rules/icon-button-has-accessible-name";
 import { templateSourceProcessor } from "./processors/template-source";
 import { elysiaCompositionBoundaries } from "./rules/elysia-composition-boundaries";
+import { elysiaHooksBeforeRoutes } from "./rules/elysia-hooks-before-routes";
+import { elysiaNoDuplicateRoutes } from "./rules/elysia-no-duplicate-routes";
 import { elysiaNoResponseReturn } from "./rules/elysia-no-response-return";
+import { elysiaNoThrowError } from "./rules/elysia-no-throw-error";
+import { elysiaPluginName } from "./rules/elysia-plugin-name";
+import { elysiaRequireRequestSchemas } from "./rules/elysia-require-request-schemas";
+import { elysiaRequireResponseSchema } from "./rules/elysia-require-response-schema";
 import { elysiaRouteBoundaries } from "./rules/elysia-route-boundaries";
-import { edenRequiresReactQuery } from "./rules/eden-requires-react-query";
+import { edenQueryKeyParams } from "./rules/eden-query-key-params";
+import { edenRequireErrorCheck } from "./rules/eden-require-error-check";
+import {
+	edenQueryRule,
+	edenRequiresTanstackQuery
+} from "./rules/eden-requires-tanstack-query";
 import { loadingIndicatorHasAriaBusy } from "./rules/loading-indicator-has-aria-busy";
+import { createConfigs } from "./configs";
+import { deprecatedAlias } from "./utils/deprecatedAlias";
+import packageJson from "../package.json";
 
-export default {
+type AbsolutePlugin = TSESLint.FlatConfig.Plugin & {
+	rules: Record<string, TSESLint.RuleModule<string, readonly unknown[]>>;
+};
+
+const plugin: AbsolutePlugin = {
+	meta: {
+		name: packageJson.name,
+		namespace: "absolute",
+		version: packageJson.version
+	},
 	processors: {
 		"template-source": templateSourceProcessor
 	},
@@ -48,9 +77,26 @@ export default {
 		"active-button-has-aria-state": activeButtonHasAriaState,
 		"angular-one-feature-per-file": angularOneFeaturePerFile,
 		"button-icon-is-hidden": buttonIconIsHidden,
-		"eden-requires-react-query": edenRequiresReactQuery,
+		"drizzle-column-casing": drizzleColumnCasing,
+		"drizzle-foreign-keys": drizzleForeignKeys,
+		"drizzle-no-query-in-loop": drizzleNoQueryInLoop,
+		"drizzle-require-transaction": drizzleRequireTransaction,
+		"drizzle-require-where": drizzleRequireWhere,
+		"eden-query-key-params": edenQueryKeyParams,
+		"eden-require-error-check": edenRequireErrorCheck,
+		"eden-requires-react-query": deprecatedAlias(
+			"eden-requires-react-query",
+			edenQueryRule("outsideReactQuery")
+		),
+		"eden-requires-tanstack-query": edenRequiresTanstackQuery,
 		"elysia-composition-boundaries": elysiaCompositionBoundaries,
+		"elysia-hooks-before-routes": elysiaHooksBeforeRoutes,
+		"elysia-no-duplicate-routes": elysiaNoDuplicateRoutes,
 		"elysia-no-response-return": elysiaNoResponseReturn,
+		"elysia-no-throw-error": elysiaNoThrowError,
+		"elysia-plugin-name": elysiaPluginName,
+		"elysia-require-request-schemas": elysiaRequireRequestSchemas,
+		"elysia-require-response-schema": elysiaRequireResponseSchema,
 		"elysia-route-boundaries": elysiaRouteBoundaries,
 		"explicit-object-types": explicitObjectTypes,
 		"heading-order": headingOrder,
@@ -59,7 +105,8 @@ export default {
 		"loading-indicator-has-aria-busy": loadingIndicatorHasAriaBusy,
 		"localize-react-props": localizeReactProps,
 		"max-depth-extended": maxDepthExtended,
-		"max-jsxnesting": maxJSXNesting,
+		"max-jsx-nesting": maxJSXNesting,
+		"max-jsxnesting": deprecatedAlias("max-jsxnesting", maxJSXNesting),
 		"min-var-length": minVarLength,
 		"no-button-navigation": noButtonNavigation,
 		"no-chained-type-assertions": noChainedTypeAssertions,
@@ -81,9 +128,20 @@ export default {
 		"no-useless-function": noUselessFunction,
 		"prefer-drizzle-query-builders": preferDrizzleQueryBuilders,
 		"prefer-inline-exports": preferInlineExports,
-		"seperate-style-files": seperateStyleFiles,
+		"separate-style-files": separateStyleFiles,
+		"seperate-style-files": deprecatedAlias(
+			"seperate-style-files",
+			separateStyleFiles
+		),
 		"sort-exports": sortExports,
 		"sort-keys-fixable": sortKeysFixable,
 		"spring-naming-convention": springNamingConvention
 	}
 };
+
+export type { AbsoluteConfigs, PresetName } from "./configs";
+export const configs = createConfigs(plugin);
+
+// Presets reference this exact object, so a consumer that also registers the
+// plugin by hand does not trip ESLint's "cannot redefine plugin" check.
+export default Object.assign(plugin, { configs });
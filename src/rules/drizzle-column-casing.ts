@@ -0,0 +1,149 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	builderChain,
+	columnsObject,
+	dialectTable,
+	propertyKey
+} from "../utils/drizzle";
+
+type Casing = "camelCase" | "preserve" | "snake_case";
+type Options = [{ casing?: Casing; globalCasing?: boolean }];
+type MessageIds = "columnName" | "missingName" | "suggestName";
+
+// Drizzle's own word split, so names match what its `casing` setting produces.
+const WORD_PATTERN = /[\da-z]+|[A-Z]+(?![a-z])|[A-Z][\da-z]+/gu;
+const APOSTROPHES = /['’]/gu;
+
+const words = (key: string) =>
+	key.replace(APOSTROPHES, "").match(WORD_PATTERN) ?? [];
+
+const toSnakeCase = (key: string) =>
+	words(key)
+		.map((word) => word.toLowerCase())
+		.join("_");
+
+const toCamelCase = (key: string) =>
+	words(key)
+		.map((word, index) =>
+			index === 0
+				? word.toLowerCase()
+				: `${word.charAt(0).toUpperCase()}${word.slice(1)}`
+		)
+		.join("");
+
+const CASINGS: Record<Casing, (key: string) => string> = {
+	camelCase: toCamelCase,
+	preserve: (key) => key,
+	snake_case: toSnakeCase
+};
+
+export const drizzleColumnCasing = createRule<Options, MessageIds>({
+	create(context, [options]) {
+		const { sourceCode } = context;
+		const casing = CASINGS[options?.casing ?? "snake_case"];
+		const globalCasing = options?.globalCasing ?? false;
+		const tables = new Set<string>();
+
+		const checkColumn = (property: TSESTree.ObjectLiteralElement) => {
+			if (property.type !== "Property") return;
+			const key = propertyKey(property);
+			const calls = builderChain(property.value);
+			const builder = calls[calls.length - 1];
+			if (!key || !builder) return;
+			const expected = casing(key);
+			const [name] = builder.arguments;
+			if (name?.type === "Literal" && typeof name.value === "string") {
+				if (name.value === expected) return;
+				const quote = name.raw.charAt(0);
+				context.report({
+					data: { expected, key, name: name.value },
+					fix: (fixer) =>
+						fixer.replaceText(name, `${quote}${expected}${quote}`),
+					messageId: "columnName",
+					node: name
+				});
+
+				return;
+			}
+			// Without a name, Drizzle uses the key, or its global casing.
+			const nameless = !name || name.type === "ObjectExpression";
+			if (!nameless || globalCasing || expected === key) return;
+			const openParen = sourceCode.getTokenAfter(builder.callee, {
+				filter: (token) => token.value === "("
+			});
+			// Naming the column renames it in the database, so it is only
+			// suggested.
+			const fix: TSESLint.ReportFixFunction | undefined = openParen
+				? (fixer) =>
+						fixer.insertTextAfter(
+							openParen,
+							name ? `"${expected}", ` : `"${expected}"`
+						)
+				: undefined;
+			context.report({
+				data: { expected, key },
+				messageId: "missingName",
+				node: builder,
+				suggest: fix
+					? [{ data: { expected }, fix, messageId: "suggestName" }]
+					: []
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				if (
+					node.callee.type !== "Identifier" ||
+					!tables.has(node.callee.name)
+				)
+					return;
+				const [, columns] = node.arguments;
+				columnsObject(columns)?.properties.forEach(checkColumn);
+			},
+			ImportDeclaration(node: TSESTree.ImportDeclaration) {
+				const factory = dialectTable(node.source.value);
+				if (!factory || node.importKind === "type") return;
+				node.specifiers.forEach((specifier) => {
+					if (
+						specifier.type === "ImportSpecifier" &&
+						specifier.imported.type === "Identifier" &&
+						specifier.imported.name === factory
+					)
+						tables.add(specifier.local.name);
+				});
+			}
+		};
+	},
+	defaultOptions: [{ casing: "snake_case", globalCasing: false }],
+	meta: {
+		docs: {
+			description:
+				"Require Drizzle column names to follow the configured casing of their object keys in `pgTable`, `mysqlTable`, and `sqliteTable` definitions."
+		},
+		fixable: "code",
+		hasSuggestions: true,
+		messages: {
+			columnName:
+				'Column `{{key}}` is named "{{name}}" in the database. Name it "{{expected}}" so every table follows the configured casing.',
+			missingName:
+				'Column `{{key}}` has no database name, so Drizzle names it after the key. Pass "{{expected}}", or set `globalCasing` if Drizzle\'s `casing` option names it.',
+			suggestName: 'Name the column "{{expected}}".'
+		},
+		schema: [
+			{
+				additionalProperties: false,
+				properties: {
+					casing: {
+						enum: ["camelCase", "preserve", "snake_case"],
+						type: "string"
+					},
+					globalCasing: { type: "boolean" }
+				},
+				type: "object"
+			}
+		],
+		type: "suggestion"
+	},
+	name: "drizzle-column-casing"
+});
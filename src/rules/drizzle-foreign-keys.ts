@@ -0,0 +1,343 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	builderChain,
+	columnsObject,
+	dialectTable,
+	propertyKey
+} from "../utils/drizzle";
+import { memberName } from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "missingIndex" | "missingOnDelete" | "suggestIndex";
+type ForeignKey = {
+	// The column's database name, or its key when the builder has none.
+	columnName: string;
+	key: string;
+	property: TSESTree.Property;
+	references: TSESTree.CallExpression;
+};
+type IndexSuggestion = { column: string; name: string; table: string };
+type TableImports = {
+	// The import that declares the table factory, extended with `index`.
+	declaration: TSESTree.ImportDeclaration;
+	// Local names of `index`, `uniqueIndex`, and `primaryKey` from every
+	// import of the dialect module.
+	indexes: Map<string, string>;
+};
+
+const INDEX_BUILDERS = new Set(["index", "primaryKey", "uniqueIndex"]);
+// Column modifiers that already give the column its own index.
+const INDEXED_MODIFIERS = new Set(["primaryKey", "unique"]);
+
+const chainMethod = (call: TSESTree.CallExpression) =>
+	call.callee.type === "MemberExpression"
+		? memberName(call.callee)
+		: undefined;
+
+const hasOnDelete = (call: TSESTree.CallExpression) => {
+	const [, actions] = call.arguments;
+
+	return (
+		actions?.type === "ObjectExpression" &&
+		actions.properties.some(
+			(property) =>
+				property.type === "Property" &&
+				propertyKey(property) === "onDelete"
+		)
+	);
+};
+
+const foreignKey = (property: TSESTree.ObjectLiteralElement) => {
+	if (property.type !== "Property") return undefined;
+	const key = propertyKey(property);
+	const calls = builderChain(property.value);
+	const references = calls.find((call) => chainMethod(call) === "references");
+	if (!key || !references) return undefined;
+	const builder = calls[calls.length - 1];
+	const [name] = builder?.arguments ?? [];
+	const indexed = calls.some((call) =>
+		INDEXED_MODIFIERS.has(chainMethod(call) ?? "")
+	);
+	const column: ForeignKey = {
+		columnName:
+			name?.type === "Literal" && typeof name.value === "string"
+				? name.value
+				: key,
+		key,
+		property,
+		references
+	};
+
+	return { column, indexed };
+};
+
+/**
+ * What the table's extra-config callback returns: its expression body, or the
+ * argument of a block body's lone `return`.
+ */
+const extraConfig = (extra: TSESTree.Node | undefined) => {
+	if (extra?.type !== "ArrowFunctionExpression") return undefined;
+	const { body } = extra;
+	if (body.type !== "BlockStatement") return body;
+	const [statement] = body.body;
+
+	return body.body.length === 1 && statement?.type === "ReturnStatement"
+		? (statement.argument ?? undefined)
+		: undefined;
+};
+
+export const drizzleForeignKeys = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+		const tables = new Map<string, TableImports>();
+		const modules = new Map<string, TableImports>();
+
+		const importedBuilder = (
+			imports: TableImports,
+			call: TSESTree.CallExpression
+		) => {
+			const { callee } = call;
+			const local =
+				callee.type === "Identifier" ? callee.name : undefined;
+
+			return [...imports.indexes].find(([, name]) => name === local)?.[0];
+		};
+
+		// The key of the first column an index or primary key call lists.
+		const leadingColumn = (
+			imports: TableImports,
+			node: TSESTree.CallExpression
+		) => {
+			const calls = builderChain(node);
+			const builder = calls[calls.length - 1];
+			const kind = builder && importedBuilder(imports, builder);
+			const target = calls.find((call) => chainMethod(call) === "on");
+			const [options] = builder?.arguments ?? [];
+			const columnList =
+				options?.type === "ObjectExpression"
+					? options.properties.find(
+							(property) =>
+								property.type === "Property" &&
+								propertyKey(property) === "columns"
+						)
+					: undefined;
+			const listed =
+				columnList?.type === "Property" &&
+				columnList.value.type === "ArrayExpression"
+					? columnList.value.elements[0]
+					: undefined;
+			const [first] =
+				kind === "primaryKey"
+					? [listed ?? options]
+					: (target?.arguments ?? []);
+
+			return kind && first?.type === "MemberExpression"
+				? memberName(first)
+				: undefined;
+		};
+
+		// Keys of the columns that lead an index, unique index, or primary key.
+		const indexedColumns = (
+			imports: TableImports,
+			extra: TSESTree.Node | undefined
+		) => {
+			const leading = new Set<string>();
+			const visit = (node: TSESTree.Node) => {
+				const column =
+					node.type === "CallExpression"
+						? leadingColumn(imports, node)
+						: undefined;
+				if (column) leading.add(column);
+				if (node.type === "ArrayExpression")
+					node.elements.forEach(
+						(element) => element && visit(element)
+					);
+				if (node.type === "ObjectExpression")
+					node.properties.forEach(
+						(property) =>
+							property.type === "Property" &&
+							visit(property.value)
+					);
+			};
+			const config = extraConfig(extra);
+			if (config) visit(config);
+
+			return leading;
+		};
+
+		const isBound = (node: TSESTree.Node, name: string) => {
+			let scope: TSESLint.Scope.Scope | null = sourceCode.getScope(node);
+			while (scope) {
+				if (scope.set.has(name)) return true;
+				scope = scope.upper;
+			}
+
+			return false;
+		};
+
+		/**
+		 * Adds `index("<table>_<column>_idx").on(table.<key>)` to the table's
+		 * extra config, creating the callback and the `index` import when
+		 * needed. Returns undefined for extra config it cannot extend.
+		 */
+		const addIndex = (
+			call: TSESTree.CallExpression,
+			imports: TableImports,
+			column: ForeignKey
+		) => {
+			const [tableName, columns, extra] = call.arguments;
+			const imported = [...imports.indexes].find(
+				([builder]) => builder === "index"
+			)?.[1];
+			const last =
+				imports.declaration.specifiers[
+					imports.declaration.specifiers.length - 1
+				];
+			if (!columns || !last || (!imported && isBound(call, "index")))
+				return undefined;
+			const table =
+				tableName?.type === "Literal" &&
+				typeof tableName.value === "string"
+					? tableName.value
+					: "table";
+			const name = `${table}_${column.columnName}_idx`;
+			const build = (parameter: string) =>
+				`${imported ?? "index"}("${name}").on(${parameter}.${column.key})`;
+			const [parameter] =
+				extra?.type === "ArrowFunctionExpression" ? extra.params : [];
+			const body = extraConfig(extra);
+			const importFix = (fixer: TSESLint.RuleFixer) =>
+				imported ? [] : [fixer.insertTextAfter(last, ", index")];
+			const data: IndexSuggestion = {
+				column: column.key,
+				name,
+				table:
+					parameter?.type === "Identifier" ? parameter.name : "table"
+			};
+			if (!extra) {
+				const fix: TSESLint.ReportFixFunction = (fixer) => [
+					...importFix(fixer),
+					fixer.insertTextAfter(
+						columns,
+						`, (table) => [${build("table")}]`
+					)
+				];
+
+				return { data, fix };
+			}
+			const elements =
+				body?.type === "ArrayExpression" ? body.elements : undefined;
+			const lastElement = elements?.[elements.length - 1];
+			if (parameter?.type !== "Identifier" || !body || !elements)
+				return undefined;
+			const entry = build(parameter.name);
+			const fix: TSESLint.ReportFixFunction = (fixer) => [
+				...importFix(fixer),
+				lastElement
+					? fixer.insertTextAfter(lastElement, `, ${entry}`)
+					: fixer.replaceText(body, `[${entry}]`)
+			];
+
+			return { data, fix };
+		};
+
+		const checkTable = (
+			call: TSESTree.CallExpression,
+			imports: TableImports
+		) => {
+			const [, columns, extra] = call.arguments;
+			const object = columnsObject(columns);
+			if (!object) return;
+			const keys = object.properties
+				.map(foreignKey)
+				.filter((entry) => entry !== undefined);
+			const leading = indexedColumns(imports, extra);
+			// Extra config the rule cannot read may index the column itself.
+			const readable = !extra || extraConfig(extra) !== undefined;
+			keys.forEach(({ column }) => {
+				if (hasOnDelete(column.references)) return;
+				context.report({
+					data: { column: column.key },
+					messageId: "missingOnDelete",
+					node: column.references
+				});
+			});
+			keys.filter(
+				({ column, indexed }) =>
+					readable && !indexed && !leading.has(column.key)
+			).forEach(({ column }) => {
+				const suggestion = addIndex(call, imports, column);
+				context.report({
+					data: { column: column.key },
+					messageId: "missingIndex",
+					node: column.property,
+					suggest: suggestion
+						? [
+								{
+									data: suggestion.data,
+									fix: suggestion.fix,
+									messageId: "suggestIndex"
+								}
+							]
+						: []
+				});
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				if (node.callee.type !== "Identifier") return;
+				const imports = tables.get(node.callee.name);
+				if (imports) checkTable(node, imports);
+			},
+			ImportDeclaration(node: TSESTree.ImportDeclaration) {
+				const factory = dialectTable(node.source.value);
+				if (!factory || node.importKind === "type") return;
+				const named = node.specifiers.flatMap((specifier) =>
+					specifier.type === "ImportSpecifier" &&
+					specifier.imported.type === "Identifier"
+						? [
+								[
+									specifier.imported.name,
+									specifier.local.name
+								] as const
+							]
+						: []
+				);
+				const imports = modules.get(node.source.value) ?? {
+					declaration: node,
+					indexes: new Map()
+				};
+				modules.set(node.source.value, imports);
+				named
+					.filter(([name]) => INDEX_BUILDERS.has(name))
+					.forEach(([name, local]) =>
+						imports.indexes.set(name, local)
+					);
+				const declared = named.filter(([name]) => name === factory);
+				if (declared.length > 0) imports.declaration = node;
+				declared.forEach(([, local]) => tables.set(local, imports));
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Require Drizzle foreign-key columns to declare an `onDelete` action and to lead an index in the table's extra config."
+		},
+		hasSuggestions: true,
+		messages: {
+			missingIndex:
+				"Foreign-key column `{{column}}` does not lead any index, so joins on it and deletes of the rows it references scan the whole table. Add an `index()` on it in the table's third argument.",
+			missingOnDelete:
+				"`{{column}}` references another table without an `onDelete` action. Pass `{ onDelete: ... }` to `.references()` so deleting the referenced row has a deliberate effect.",
+			suggestIndex:
+				'Add `index("{{name}}").on({{table}}.{{column}})` to the table.'
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "drizzle-foreign-keys"
+});
@@ -0,0 +1,212 @@
+import { TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import { databaseDetector, queryMethod } from "../utils/drizzle";
+import {
+	type FunctionNode,
+	functionAncestor,
+	memberName,
+	resolveFunction
+} from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "queryInLoop" | "writeInLoop";
+type LoopStep = { ancestor: TSESTree.Node; child: TSESTree.Node };
+
+const LOOP_CALLBACKS = new Set(["flatMap", "forEach", "map"]);
+const PARALLEL_METHODS = new Set(["all", "allSettled"]);
+const WRITE_METHODS = new Set(["delete", "insert", "update"]);
+const LOOP_LABELS = new Map([
+	["DoWhileStatement", "a `do...while` loop"],
+	["ForInStatement", "a `for...in` loop"],
+	["ForOfStatement", "a `for...of` loop"],
+	["ForStatement", "a `for` loop"],
+	["WhileStatement", "a `while` loop"]
+]);
+
+const isFunctionNode = (node: TSESTree.Node): node is FunctionNode =>
+	node.type === "ArrowFunctionExpression" ||
+	node.type === "FunctionDeclaration" ||
+	node.type === "FunctionExpression";
+
+// `items.map(callback)`, or undefined when `node` is not an iteration callback.
+const iterationCall = (node: TSESTree.Node) => {
+	const { parent } = node;
+
+	return parent?.type === "CallExpression" &&
+		parent.arguments[0] === node &&
+		parent.callee.type === "MemberExpression" &&
+		LOOP_CALLBACKS.has(memberName(parent.callee) ?? "")
+		? parent
+		: undefined;
+};
+
+const isParallelCall = (node: TSESTree.Node | undefined) =>
+	node?.type === "CallExpression" &&
+	node.callee.type === "MemberExpression" &&
+	node.callee.object.type === "Identifier" &&
+	node.callee.object.name === "Promise" &&
+	PARALLEL_METHODS.has(memberName(node.callee) ?? "");
+
+const callbackLabel = (call: TSESTree.CallExpression) => {
+	const method =
+		call.callee.type === "MemberExpression"
+			? memberName(call.callee)
+			: undefined;
+
+	return method === "map" && isParallelCall(call.parent)
+		? "`Promise.all` over `.map()`"
+		: `a \`.${method}()\` callback`;
+};
+
+// The loop that repeats `child` as part of `ancestor`, if any.
+const loopLabel = ({ ancestor, child }: LoopStep) => {
+	const iteration = iterationCall(ancestor);
+	if (iteration) return callbackLabel(iteration);
+	const repeats =
+		(ancestor.type === "ForStatement" && child !== ancestor.init) ||
+		((ancestor.type === "ForInStatement" ||
+			ancestor.type === "ForOfStatement") &&
+			child === ancestor.body) ||
+		ancestor.type === "WhileStatement" ||
+		ancestor.type === "DoWhileStatement";
+
+	return repeats ? LOOP_LABELS.get(ancestor.type) : undefined;
+};
+
+/**
+ * Whether a `return` between `loop` and the query leaves the loop, as in a
+ * retry loop that stops at the first query that succeeds. A `return` inside
+ * an iteration callback only ends that callback.
+ */
+const exitsLoop = (loop: TSESTree.Node, between: LoopStep[]) =>
+	between.some(
+		({ ancestor }) =>
+			ancestor.type === "ReturnStatement" &&
+			functionAncestor(ancestor) === functionAncestor(loop)
+	);
+
+export const drizzleNoQueryInLoop = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+		const isDatabase = databaseDetector(sourceCode);
+		const calls: TSESTree.CallExpression[] = [];
+
+		// The innermost loop around `node` within its own function.
+		const enclosingLoop = (node: TSESTree.Node) => {
+			const ancestors = sourceCode.getAncestors(node);
+			const steps = ancestors.map((ancestor, index) => {
+				const step: LoopStep = {
+					ancestor,
+					child: ancestors[index + 1] ?? node
+				};
+
+				return step;
+			});
+			const boundary = steps.findLastIndex(
+				({ ancestor }) =>
+					isFunctionNode(ancestor) && !iterationCall(ancestor)
+			);
+
+			const inner = steps.slice(boundary + 1).reverse();
+
+			return inner
+				.map((step, index) =>
+					isFunctionNode(step.ancestor) ||
+					!exitsLoop(step.ancestor, inner.slice(0, index))
+						? loopLabel(step)
+						: undefined
+				)
+				.find((label) => label !== undefined);
+		};
+
+		// Same-file functions that run a query, directly or through each other.
+		const queryingFunctions = () => {
+			const querying = new Set(
+				calls
+					.filter((call) => queryMethod(call, isDatabase))
+					.map(functionAncestor)
+					.filter((owner) => owner !== undefined)
+			);
+			let previous = 0;
+			while (previous !== querying.size) {
+				previous = querying.size;
+				calls
+					.filter((call) => {
+						const callee = resolveFunction(sourceCode, call.callee);
+
+						return callee !== undefined && querying.has(callee);
+					})
+					.map(functionAncestor)
+					.forEach((owner) => owner && querying.add(owner));
+			}
+
+			return querying;
+		};
+
+		const inspectHelper = (
+			node: TSESTree.Node,
+			querying: Set<FunctionNode>,
+			label: string | undefined
+		) => {
+			const helper = resolveFunction(sourceCode, node);
+			if (!label || !helper || !querying.has(helper)) return;
+			context.report({
+				data: { loop: label, query: `${sourceCode.getText(node)}()` },
+				messageId: "queryInLoop",
+				node
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				calls.push(node);
+			},
+			"Program:exit"() {
+				const querying = queryingFunctions();
+				calls.forEach((call) => {
+					const method = queryMethod(call, isDatabase);
+					const [callback] = call.arguments;
+					if (
+						callback?.type === "Identifier" &&
+						iterationCall(callback)
+					)
+						inspectHelper(callback, querying, callbackLabel(call));
+					if (!method) {
+						inspectHelper(
+							call.callee,
+							querying,
+							enclosingLoop(call)
+						);
+
+						return;
+					}
+					const loop = enclosingLoop(call);
+					if (!loop) return;
+					context.report({
+						data: { loop, query: `${method}()` },
+						messageId: WRITE_METHODS.has(method)
+							? "writeInLoop"
+							: "queryInLoop",
+						node: call
+					});
+				});
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Disallow Drizzle queries that run once per iteration of a loop, an iteration callback, or `Promise.all` over `.map()`."
+		},
+		messages: {
+			queryInLoop:
+				"`{{query}}` runs a database query on every iteration of {{loop}}. Load the rows for all iterations at once with `inArray(...)` on the collected keys, or fetch the related rows through a relational query with `with:`.",
+			writeInLoop:
+				"`{{query}}` runs a database write on every iteration of {{loop}}. Batch it into one statement, such as `insert(...).values(rows)` or a write filtered with `inArray(...)`."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "drizzle-no-query-in-loop"
+});
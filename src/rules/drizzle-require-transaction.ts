@@ -0,0 +1,344 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	databaseDetector,
+	isExecutedChain,
+	queryChain,
+	queryHandle,
+	queryMethod
+} from "../utils/drizzle";
+import { functionAncestor, memberName, variableFor } from "../utils/elysia";
+
+type Options = [];
+type MessageIds =
+	| "multipleWrites"
+	| "outerDatabase"
+	| "suggestTransaction"
+	| "suggestTransactionHandle";
+type Query = {
+	call: TSESTree.CallExpression;
+	handle: TSESTree.Node;
+	method: string;
+};
+type TransactionCallback =
+	| TSESTree.ArrowFunctionExpression
+	| TSESTree.FunctionExpression;
+type TextEdit = { range: TSESTree.Range; text: string };
+
+const WRITE_METHODS = new Set(["delete", "insert", "update"]);
+const EXIT_STATEMENTS = new Set(["ReturnStatement", "ThrowStatement"]);
+const CASE_EXITS = new Set([
+	"BreakStatement",
+	"ContinueStatement",
+	...EXIT_STATEMENTS
+]);
+const TRANSACTION_NAME = "tx";
+const TRANSACTION_PATTERN = /\btx\b/u;
+const LINE_BREAK = /\n/gu;
+
+// The statement `await <query>;` that runs `top`, if it stands on its own.
+const awaitedStatement = (top: TSESTree.CallExpression) => {
+	const { parent } = top;
+
+	return parent.type === "AwaitExpression" &&
+		parent.parent.type === "ExpressionStatement"
+		? parent.parent
+		: undefined;
+};
+
+// The last statement `node` runs: itself, or the last one of its block.
+const lastStatement = (node: TSESTree.Node | undefined) =>
+	node?.type === "BlockStatement" ? node.body[node.body.length - 1] : node;
+
+// An `if` arm that always returns or throws, so nothing after the `if` runs.
+const isExitingArm = (node: TSESTree.Node) =>
+	node.parent?.type === "IfStatement" &&
+	node.parent.test !== node &&
+	EXIT_STATEMENTS.has(lastStatement(node)?.type ?? "");
+
+// The two arms of an `if` or conditional, or a `try` block and its fallback.
+const isBranch = (
+	parent: TSESTree.Node | undefined,
+	left: TSESTree.Node | undefined,
+	right: TSESTree.Node | undefined
+) => {
+	if (parent?.type === "TryStatement")
+		return left === parent.block && right === parent.handler;
+
+	return (
+		(parent?.type === "IfStatement" ||
+			parent?.type === "ConditionalExpression") &&
+		left !== parent.test &&
+		right !== parent.test
+	);
+};
+
+/**
+ * Whether two nodes are not expected to run in the same call: they sit on the
+ * two arms of an `if` or conditional, in a `try` block and its `catch`, in
+ * `switch` cases that do not fall through, or the earlier one sits in an `if`
+ * arm that returns before the later one.
+ */
+const isExclusive = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	one: TSESTree.Node,
+	other: TSESTree.Node
+) => {
+	const swapped = other.range[0] < one.range[0];
+	const earlier = swapped ? other : one;
+	const later = swapped ? one : other;
+	const left = [...sourceCode.getAncestors(earlier), earlier];
+	const right = [...sourceCode.getAncestors(later), later];
+	const split = left.findIndex((node, index) => right[index] !== node);
+	if (split <= 0) return false;
+	const parent = left[split - 1];
+	const leftChild = left[split];
+	const rightChild = right[split];
+	if (isBranch(parent, leftChild, rightChild)) return true;
+	if (parent?.type === "SwitchStatement" && leftChild?.type === "SwitchCase")
+		return CASE_EXITS.has(
+			lastStatement(leftChild.consequent[leftChild.consequent.length - 1])
+				?.type ?? ""
+		);
+
+	return left.slice(split).some(isExitingArm);
+};
+
+export const drizzleRequireTransaction = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+		const isDatabase = databaseDetector(sourceCode);
+		const queries: Query[] = [];
+
+		// `callback` when it is passed to `<database>.transaction(...)`.
+		const isTransactionCallback = (
+			node: TSESTree.Node
+		): node is TransactionCallback => {
+			const { parent } = node;
+
+			return (
+				(node.type === "ArrowFunctionExpression" ||
+					node.type === "FunctionExpression") &&
+				parent?.type === "CallExpression" &&
+				parent.arguments[0] === node &&
+				parent.callee.type === "MemberExpression" &&
+				memberName(parent.callee) === "transaction" &&
+				isDatabase(parent.callee.object)
+			);
+		};
+
+		const enclosingTransaction = (node: TSESTree.Node) =>
+			sourceCode.getAncestors(node).findLast(isTransactionCallback);
+
+		const usesTransaction = (
+			handle: TSESTree.Node,
+			callback: TransactionCallback
+		) => {
+			const [parameter] = callback.params;
+			const variable =
+				handle.type === "Identifier"
+					? variableFor(sourceCode, handle)
+					: undefined;
+
+			return Boolean(
+				variable?.defs.some(
+					({ name, type }) =>
+						type === "Parameter" && name === parameter
+				)
+			);
+		};
+
+		const reportOuterDatabase = ({ call, handle }: Query) => {
+			const callback = enclosingTransaction(call);
+			if (!callback || usesTransaction(handle, callback)) return;
+			const [parameter] = callback.params;
+			const transaction =
+				parameter?.type === "Identifier" ? parameter.name : undefined;
+			context.report({
+				data: {
+					database: sourceCode.getText(handle),
+					transaction: transaction
+						? `\`${transaction}\``
+						: "the transaction parameter"
+				},
+				messageId: "outerDatabase",
+				node: handle,
+				suggest: transaction
+					? [
+							{
+								data: { transaction },
+								fix: (fixer) =>
+									fixer.replaceText(handle, transaction),
+								messageId: "suggestTransactionHandle"
+							}
+						]
+					: []
+			});
+		};
+
+		/**
+		 * Wraps the statements from the first write to the last in one
+		 * transaction when every write is its own `await` statement in the same
+		 * block and nothing declared in between would leave scope.
+		 */
+		const wrapInTransaction = (writes: Query[], database: string) => {
+			const statements = writes.map(({ call }) =>
+				awaitedStatement(queryChain(call).top)
+			);
+			const [first] = statements;
+			const last = statements[statements.length - 1];
+			const block = first?.parent;
+			if (
+				!first ||
+				!last ||
+				(block?.type !== "BlockStatement" && block?.type !== "Program")
+			)
+				return undefined;
+			const siblings: TSESTree.Node[] = block.body;
+			const range = siblings.slice(
+				siblings.indexOf(first),
+				siblings.indexOf(last) + 1
+			);
+			const contained = statements.every(
+				(statement) => statement && range.includes(statement)
+			);
+			const text = sourceCode.text.slice(first.range[0], last.range[1]);
+			if (
+				!contained ||
+				range.some(({ type }) => type !== "ExpressionStatement") ||
+				TRANSACTION_PATTERN.test(text)
+			)
+				return undefined;
+			const [start] = first.range;
+			const [, end] = last.range;
+			const handles: TextEdit[] = queries
+				.filter(
+					({ handle }) =>
+						sourceCode.getText(handle) === database &&
+						handle.range[0] >= start &&
+						handle.range[1] <= end
+				)
+				.map(({ handle }) => ({
+					range: handle.range,
+					text: TRANSACTION_NAME
+				}));
+			// Lines that begin inside a template literal keep their text.
+			const templates = sourceCode.ast.tokens.filter(
+				(token) =>
+					token.type === "Template" &&
+					token.range[1] > start &&
+					token.range[0] < end
+			);
+			const indents: TextEdit[] = [...text.matchAll(LINE_BREAK)]
+				.map(({ index }) => start + index + 1)
+				.filter(
+					(offset) =>
+						!templates.some(
+							(token) =>
+								token.range[0] < offset &&
+								offset < token.range[1]
+						)
+				)
+				.map((offset) => ({ range: [offset, offset], text: "\t" }));
+			const inner = [...handles, ...indents]
+				.sort(
+					(left, right) =>
+						right.range[0] - left.range[0] ||
+						right.range[1] - left.range[1]
+				)
+				.reduce(
+					(current, edit) =>
+						`${current.slice(0, edit.range[0] - start)}${edit.text}${current.slice(edit.range[1] - start)}`,
+					text
+				);
+			const indent =
+				sourceCode.lines[first.loc.start.line - 1]?.slice(
+					0,
+					first.loc.start.column
+				) ?? "";
+			const fix: TSESLint.ReportFixFunction = (fixer) =>
+				fixer.replaceTextRange(
+					[first.range[0], last.range[1]],
+					`await ${database}.transaction(async (${TRANSACTION_NAME}) => {\n${indent}\t${inner}\n${indent}});`
+				);
+
+			return fix;
+		};
+
+		const reportWrites = (group: Query[]) => {
+			const writes = group.filter((write) =>
+				group.some(
+					(other) =>
+						other !== write &&
+						!isExclusive(sourceCode, write.call, other.call)
+				)
+			);
+			const [, second] = writes;
+			const [first] = writes;
+			if (!first || !second) return;
+			const database = sourceCode.getText(first.handle);
+			const fix = wrapInTransaction(writes, database);
+			context.report({
+				data: { count: writes.length, database },
+				messageId: "multipleWrites",
+				node: second.call,
+				suggest: fix
+					? [
+							{
+								data: { database },
+								fix,
+								messageId: "suggestTransaction"
+							}
+						]
+					: []
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				const method = queryMethod(node, isDatabase);
+				const handle = queryHandle(node, isDatabase);
+				if (!method || !handle) return;
+				const query: Query = { call: node, handle, method };
+				queries.push(query);
+			},
+			"Program:exit"() {
+				queries.forEach(reportOuterDatabase);
+				const groups = new Map<string, Query[]>();
+				queries
+					.filter(
+						({ call, method }) =>
+							WRITE_METHODS.has(method) &&
+							isExecutedChain(queryChain(call)) &&
+							!enclosingTransaction(call)
+					)
+					.forEach((query) => {
+						const owner = functionAncestor(query.call);
+						const key = `${owner?.range.join(":") ?? "program"}/${sourceCode.getText(query.handle)}`;
+						groups.set(key, [...(groups.get(key) ?? []), query]);
+					});
+				groups.forEach(reportWrites);
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Require functions that run several Drizzle writes to run them inside `db.transaction(...)`, and the transaction handle to be used inside it."
+		},
+		hasSuggestions: true,
+		messages: {
+			multipleWrites:
+				"This function runs {{count}} Drizzle writes on `{{database}}` outside a transaction, so a failure part-way through leaves the earlier writes applied. Run them inside `{{database}}.transaction(async (tx) => ...)`.",
+			outerDatabase:
+				"`{{database}}` is used inside a transaction callback, so this query runs outside the transaction. Use {{transaction}} instead.",
+			suggestTransaction:
+				"Wrap these writes in `{{database}}.transaction(...)`.",
+			suggestTransactionHandle: "Use `{{transaction}}`."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "drizzle-require-transaction"
+});
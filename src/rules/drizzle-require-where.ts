@@ -0,0 +1,101 @@
+import { TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	databaseDetector,
+	isExecutedChain,
+	queryChain,
+	queryMethod
+} from "../utils/drizzle";
+import { memberName } from "../utils/elysia";
+
+type Options = [{ allowWrappers?: string[] }];
+type MessageIds = "unboundedWrite";
+
+const ALLOW_COMMENT = /^\s*absolute-allow-unbounded\b/u;
+const BOUNDED_METHODS = new Set(["delete", "update"]);
+
+const calleeName = (node: TSESTree.CallExpression) => {
+	const { callee } = node;
+	if (callee.type === "Identifier") return callee.name;
+
+	return callee.type === "MemberExpression" ? memberName(callee) : undefined;
+};
+
+export const drizzleRequireWhere = createRule<Options, MessageIds>({
+	create(context, [options]) {
+		const { sourceCode } = context;
+		const wrappers = new Set(options?.allowWrappers ?? []);
+		const isDatabase = databaseDetector(sourceCode);
+		const allowComments = sourceCode
+			.getAllComments()
+			.filter(({ value }) => ALLOW_COMMENT.test(value));
+
+		// An allow comment on the line above the statement or within it.
+		const hasAllowComment = (node: TSESTree.Node) => {
+			const statement = sourceCode
+				.getAncestors(node)
+				.findLast(
+					(ancestor) =>
+						ancestor.type.endsWith("Statement") ||
+						ancestor.type === "VariableDeclaration"
+				);
+			const first = (statement ?? node).loc.start.line - 1;
+			const last = node.loc.end.line;
+
+			return allowComments.some(
+				({ loc }) => loc.start.line <= last && loc.end.line >= first
+			);
+		};
+
+		const isWrapped = (node: TSESTree.Node) =>
+			sourceCode
+				.getAncestors(node)
+				.some(
+					(ancestor) =>
+						ancestor.type === "CallExpression" &&
+						wrappers.has(calleeName(ancestor) ?? "")
+				);
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				const method = queryMethod(node, isDatabase);
+				if (!method || !BOUNDED_METHODS.has(method)) return;
+				const chain = queryChain(node);
+				const { methods, top } = chain;
+				if (methods.includes("where") || !isExecutedChain(chain))
+					return;
+				if (isWrapped(top) || hasAllowComment(top)) return;
+				context.report({
+					data: { method },
+					messageId: "unboundedWrite",
+					node
+				});
+			}
+		};
+	},
+	defaultOptions: [{ allowWrappers: [] }],
+	meta: {
+		docs: {
+			description:
+				"Require Drizzle `update` and `delete` queries to be filtered with `.where(...)` unless a full-table write is explicitly allowed."
+		},
+		messages: {
+			unboundedWrite:
+				"This `{{method}}(...)` runs without `.where(...)` and changes every row in the table. Add a `.where(...)` condition, or mark an intentional full-table write with `// absolute-allow-unbounded` or a configured wrapper."
+		},
+		schema: [
+			{
+				additionalProperties: false,
+				properties: {
+					allowWrappers: {
+						items: { minLength: 1, type: "string" },
+						type: "array"
+					}
+				},
+				type: "object"
+			}
+		],
+		type: "problem"
+	},
+	name: "drizzle-require-where"
+});
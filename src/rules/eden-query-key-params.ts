@@ -0,0 +1,433 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	type EdenClients,
+	edenRequestDetector,
+	queryFactoryDetector,
+	queryOptionsObject
+} from "../utils/eden";
+import {
+	childNodes,
+	type FunctionNode,
+	memberName,
+	resolveFunction,
+	variableFor
+} from "../utils/elysia";
+
+type Options = [EdenClients];
+type MessageIds = "missingKeyParts" | "suggestQueryKey";
+type Bindings = Map<TSESLint.Scope.Variable, string[]>;
+type Resolver = (node: TSESTree.Node) => string[];
+// One segment of an Eden request path: a literal name or a dynamic value.
+type PathPart = { name: string } | { value: TSESTree.Node };
+type PathStep = { next: TSESTree.Node; parts: PathPart[] };
+type EdenRequest = {
+	path: PathPart[];
+	query: TSESTree.Node | undefined;
+};
+type ReachedRequest = EdenRequest & { resolve: Resolver };
+type NodeCheck = (node: TSESTree.Node) => boolean;
+type RequestWalker = (
+	functionNode: FunctionNode,
+	bindings: Bindings,
+	visited: Set<FunctionNode>
+) => ReachedRequest[];
+
+// Treaty methods whose first argument is the options object, not a body.
+const BODYLESS_METHODS = new Set(["get", "head", "options"]);
+const QUERY_PROPERTIES = new Set(["$query", "query"]);
+const WRAPPER_TYPES = new Set([
+	"ChainExpression",
+	"TSAsExpression",
+	"TSNonNullExpression",
+	"TSSatisfiesExpression"
+]);
+
+const propertyName = (node: TSESTree.ObjectLiteralElement) => {
+	if (node.type !== "Property" || node.computed) return undefined;
+	if (node.key.type === "Identifier") return node.key.name;
+
+	return typeof node.key.value === "string" ? node.key.value : undefined;
+};
+
+const propertyValue = (node: TSESTree.Node | undefined, names: Set<string>) => {
+	if (node?.type !== "ObjectExpression") return undefined;
+	const property = node.properties.find((candidate) =>
+		names.has(propertyName(candidate) ?? "")
+	);
+
+	return property?.type === "Property" ? property.value : undefined;
+};
+
+const argumentAt = (node: TSESTree.CallExpression, index: number) => {
+	const argument = node.arguments[index];
+
+	return argument?.type === "SpreadElement" ? undefined : argument;
+};
+
+// `users({ id })` contributes one dynamic part per property value.
+const paramParts = (argument: TSESTree.Node | undefined) => {
+	if (!argument) return [];
+	if (argument.type !== "ObjectExpression") return [{ value: argument }];
+
+	return argument.properties.flatMap((property) =>
+		property.type === "Property" ? [{ value: property.value }] : []
+	);
+};
+
+// The path parts one link of a Treaty chain adds, and the link before it.
+const pathStep = (node: TSESTree.Node) => {
+	if (node.type === "MemberExpression") {
+		const name = memberName(node);
+		const step: PathStep = {
+			next: node.object,
+			parts: [name === undefined ? { value: node.property } : { name }]
+		};
+
+		return step;
+	}
+	if (
+		node.type !== "CallExpression" ||
+		node.callee.type !== "MemberExpression"
+	)
+		return undefined;
+	const step: PathStep = {
+		next: node.callee,
+		parts: paramParts(argumentAt(node, 0))
+	};
+
+	return step;
+};
+
+// `client.users({ id }).posts.get({ query: { page } })`
+const treatyRequest = (node: TSESTree.CallExpression) => {
+	if (node.callee.type !== "MemberExpression") return undefined;
+	const method = memberName(node.callee) ?? "";
+	const path: PathPart[] = [];
+	let step = pathStep(node.callee.object);
+	while (step) {
+		path.unshift(...step.parts);
+		step = pathStep(step.next);
+	}
+	const options = argumentAt(node, BODYLESS_METHODS.has(method) ? 0 : 1);
+	const request: EdenRequest = {
+		path,
+		query: propertyValue(options, QUERY_PROPERTIES)
+	};
+
+	return request;
+};
+
+// `fetcher("/users/:id", { params: { id }, query: { page } })`
+const fetchRequest = (node: TSESTree.CallExpression) => {
+	const route = argumentAt(node, 0);
+	if (route?.type !== "Literal" || typeof route.value !== "string")
+		return undefined;
+	const options = argumentAt(node, 1);
+	const params = propertyValue(options, new Set(["params"]));
+	const path = route.value
+		.split("/")
+		.filter((segment) => segment.length > 0)
+		.map((segment) => {
+			const value = segment.startsWith(":")
+				? propertyValue(params, new Set([segment.slice(1)]))
+				: undefined;
+			const part: PathPart = value ? { value } : { name: segment };
+
+			return part;
+		});
+	const request: EdenRequest = {
+		path,
+		query: propertyValue(options, QUERY_PROPERTIES)
+	};
+
+	return request;
+};
+
+const isStaticVariable = (variable: TSESLint.Scope.Variable) =>
+	variable.defs.every(
+		(definition) =>
+			definition.type === "ImportBinding" ||
+			(definition.type === "Variable" &&
+				definition.parent.kind === "const" &&
+				definition.node.init?.type === "Literal")
+	);
+
+const isWithin = (node: TSESTree.Node, container: TSESTree.Node) =>
+	node.range[0] >= container.range[0] && node.range[1] <= container.range[1];
+
+// A key part covers a request value when it is that value or an object it is read from.
+const covers = (keyPart: string, value: string) =>
+	value === keyPart ||
+	[".", "?.", "["].some((separator) =>
+		value.startsWith(`${keyPart}${separator}`)
+	);
+
+// An identifier, or a member read or argument-less call on one.
+const isReference: NodeCheck = (node) => {
+	if (node.type === "Identifier" || node.type === "ThisExpression")
+		return true;
+	if (node.type === "MemberExpression")
+		return (
+			(!node.computed || node.property.type === "Literal") &&
+			isReference(node.object)
+		);
+
+	return (
+		node.type === "CallExpression" &&
+		node.arguments.length === 0 &&
+		isReference(node.callee)
+	);
+};
+
+export const edenQueryKeyParams = createRule<Options, MessageIds>({
+	create(context, [options]) {
+		const { sourceCode } = context;
+		const isEdenCall = edenRequestDetector(sourceCode, options);
+		const isQueryFactory = queryFactoryDetector(sourceCode);
+		const calls: TSESTree.CallExpression[] = [];
+
+		/**
+		 * The values an expression depends on, as source text: identifiers
+		 * and the member reads or signal calls made on them. Parameters of
+		 * followed helpers are replaced by their call-site values, while
+		 * constants, imports, and locals of `owner` contribute nothing.
+		 */
+		const resolverFor = (
+			owner: FunctionNode | undefined,
+			bindings: Bindings
+		) => {
+			const resolve: Resolver = (node) => {
+				if (node.type === "Literal" || node.type === "Super") return [];
+				if (WRAPPER_TYPES.has(node.type))
+					return childNodes(node, sourceCode.visitorKeys)
+						.slice(0, 1)
+						.flatMap(resolve);
+				if (node.type === "ThisExpression")
+					return owner && owner.type !== "ArrowFunctionExpression"
+						? []
+						: ["this"];
+				if (node.type === "Identifier") {
+					const variable = variableFor(sourceCode, node);
+					const bound = variable && bindings.get(variable);
+					if (bound) return bound;
+					const local = variable?.defs.some(
+						({ name }) =>
+							owner !== undefined && isWithin(name, owner)
+					);
+					if (!variable || local || isStaticVariable(variable))
+						return [];
+
+					return [node.name];
+				}
+				if (
+					node.type === "ArrowFunctionExpression" ||
+					node.type === "FunctionExpression"
+				)
+					return [];
+				const object =
+					node.type === "MemberExpression" ? node.object : undefined;
+				const reference =
+					node.type === "CallExpression" ? node.callee : object;
+				const [single, ...rest] =
+					reference && isReference(node) ? resolve(reference) : [];
+				if (reference && single !== undefined && rest.length === 0)
+					return [
+						`${single}${sourceCode.text.slice(reference.range[1], node.range[1])}`
+					];
+
+				return childNodes(node, sourceCode.visitorKeys).flatMap(
+					resolve
+				);
+			};
+
+			return resolve;
+		};
+
+		const requestOf = (node: TSESTree.CallExpression) =>
+			node.callee.type === "MemberExpression"
+				? treatyRequest(node)
+				: fetchRequest(node);
+
+		// Calls from `functionNode` to same-file helpers defined outside it.
+		const helperCalls = (functionNode: FunctionNode) =>
+			calls.flatMap((call) => {
+				const helper =
+					isWithin(call, functionNode) &&
+					call.callee.type === "Identifier"
+						? resolveFunction(sourceCode, call.callee)
+						: undefined;
+
+				return helper && !isWithin(helper, functionNode)
+					? [{ call, helper }]
+					: [];
+			});
+
+		const walk: RequestWalker = (functionNode, bindings, visited) => {
+			const resolve = resolverFor(functionNode, bindings);
+			const requests = calls
+				.filter(
+					(call) => isWithin(call, functionNode) && isEdenCall(call)
+				)
+				.flatMap((call) => {
+					const request = requestOf(call);
+
+					return request ? [{ ...request, resolve }] : [];
+				});
+			const nested = helperCalls(functionNode)
+				.filter(({ helper }) => !visited.has(helper))
+				.flatMap(({ call, helper }) => {
+					const helperBindings: Bindings = new Map();
+					const declared = sourceCode.getDeclaredVariables(helper);
+					helper.params.forEach((param, index) => {
+						const argument = argumentAt(call, index);
+						const variable = declared.find(({ defs }) =>
+							defs.some(({ name }) => name === param)
+						);
+						if (variable && argument)
+							helperBindings.set(variable, resolve(argument));
+					});
+
+					return walk(
+						helper,
+						helperBindings,
+						new Set([...visited, helper])
+					);
+				});
+
+			return [...requests, ...nested];
+		};
+
+		const requestValues = ({ path, query, resolve }: ReachedRequest) => [
+			...path.flatMap((part) =>
+				"value" in part ? resolve(part.value) : []
+			),
+			...(query ? resolve(query) : [])
+		];
+
+		const queryText = (query: TSESTree.Node, resolve: Resolver) => {
+			if (query.type !== "ObjectExpression")
+				return resolve(query).join(", ");
+			const entries = query.properties.flatMap((property) => {
+				const name = propertyName(property);
+				const [value, ...rest] =
+					property.type === "Property" ? resolve(property.value) : [];
+				if (!name || value === undefined || rest.length > 0) return [];
+
+				return [name === value ? name : `${name}: ${value}`];
+			});
+
+			return entries.length > 0 ? `{ ${entries.join(", ")} }` : "";
+		};
+
+		// Offered only when every path value is a literal or a single reference.
+		const suggestedKey = ({ path, query, resolve }: ReachedRequest) => {
+			const elements = path.map((part) => {
+				if ("name" in part) return JSON.stringify(part.name);
+				const [value, ...rest] = resolve(part.value);
+				if (part.value.type === "Literal")
+					return sourceCode.getText(part.value);
+
+				return value !== undefined && rest.length === 0
+					? value
+					: undefined;
+			});
+			const queryElement = query ? queryText(query, resolve) : "";
+			if (elements.some((element) => element === undefined))
+				return undefined;
+
+			return `[${[...elements, ...(queryElement ? [queryElement] : [])].join(", ")}]`;
+		};
+
+		const keyExpression = (node: TSESTree.Node) => {
+			if (node.type !== "Identifier") return node;
+			const definition = variableFor(sourceCode, node)?.defs[0];
+
+			return definition?.type === "Variable" && definition.node.init
+				? definition.node.init
+				: node;
+		};
+
+		const inspectQuery = (call: TSESTree.CallExpression) => {
+			const optionsObject = queryOptionsObject(sourceCode, call);
+			const queryKey = propertyValue(
+				optionsObject,
+				new Set(["queryKey"])
+			);
+			const queryFn = propertyValue(optionsObject, new Set(["queryFn"]));
+			const callback = queryFn && resolveFunction(sourceCode, queryFn);
+			if (!queryKey || !callback) return;
+			const requests = walk(callback, new Map(), new Set([callback]));
+			const keyParts = resolverFor(
+				undefined,
+				new Map()
+			)(keyExpression(queryKey));
+			const missing = [
+				...new Set(requests.flatMap(requestValues))
+			].filter((value) => !keyParts.some((part) => covers(part, value)));
+			const [request] = requests;
+			if (missing.length === 0 || !request) return;
+			const key =
+				requests.length === 1 ? suggestedKey(request) : undefined;
+			context.report({
+				data: {
+					values: missing.map((value) => `\`${value}\``).join(", ")
+				},
+				messageId: "missingKeyParts",
+				node: queryKey,
+				suggest:
+					key !== undefined
+						? [
+								{
+									data: { key },
+									fix: (fixer) =>
+										fixer.replaceText(queryKey, key),
+									messageId: "suggestQueryKey"
+								}
+							]
+						: []
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				calls.push(node);
+			},
+			"Program:exit"() {
+				calls.filter(isQueryFactory).forEach(inspectQuery);
+			}
+		};
+	},
+	defaultOptions: [{ clients: ["api"], modules: [] }],
+	meta: {
+		docs: {
+			description:
+				"Require TanStack Query keys to include every dynamic path segment and query argument of the Eden request in their `queryFn`."
+		},
+		hasSuggestions: true,
+		messages: {
+			missingKeyParts:
+				"`queryKey` does not include {{values}}, which the Eden request in `queryFn` sends to the server. Queries for different values would share one cache entry.",
+			suggestQueryKey:
+				"Use the query key `{{key}}` built from the Eden request path."
+		},
+		schema: [
+			{
+				additionalProperties: false,
+				properties: {
+					clients: {
+						items: { minLength: 1, type: "string" },
+						type: "array"
+					},
+					modules: {
+						items: { minLength: 1, type: "string" },
+						type: "array"
+					}
+				},
+				type: "object"
+			}
+		],
+		type: "problem"
+	},
+	name: "eden-query-key-params"
+});
@@ -0,0 +1,419 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	type EdenClients,
+	edenRequestDetector,
+	queryFactoryDetector,
+	queryOptionsObject
+} from "../utils/eden";
+import {
+	type FunctionNode,
+	functionAncestor,
+	functionReturnExpressions,
+	memberName,
+	resolveFunction,
+	variableFor
+} from "../utils/elysia";
+
+type Options = [EdenClients];
+type MessageIds = "uncheckedData" | "unthrownError";
+type Part = "data" | "error";
+// The bindings one Eden request result flows into.
+type EdenResult = {
+	data: Set<TSESLint.Scope.Variable>;
+	error: Set<TSESLint.Scope.Variable>;
+	results: Set<TSESLint.Scope.Variable>;
+	uses: DataUse[];
+};
+type DataUse = { kind: "read" | "return"; node: TSESTree.Node };
+type TestCheck = (test: TSESTree.Node) => boolean;
+type ExitCheck = (statement: TSESTree.Statement, throws: boolean) => boolean;
+
+const TRANSPARENT_PARENTS = new Set([
+	"AwaitExpression",
+	"ChainExpression",
+	"TSAsExpression",
+	"TSNonNullExpression",
+	"TSSatisfiesExpression"
+]);
+const NULL_CHECKS = new Set(["!=", "!==", "==", "==="]);
+
+// The outermost expression that still evaluates to `node`, past `await` and casts.
+const outermost = (node: TSESTree.Node) => {
+	let current = node;
+	while (current.parent && TRANSPARENT_PARENTS.has(current.parent.type))
+		current = current.parent;
+
+	return current;
+};
+
+const unwrap = (node: TSESTree.Node) =>
+	node.type === "ChainExpression" || node.type === "TSNonNullExpression"
+		? node.expression
+		: node;
+
+const isNullish = (node: TSESTree.Node) =>
+	(node.type === "Literal" && node.value === null) ||
+	(node.type === "Identifier" && node.name === "undefined");
+
+const exits: ExitCheck = (statement, throws) => {
+	if (statement.type === "ThrowStatement") return true;
+	if (statement.type === "BlockStatement") {
+		const last = statement.body[statement.body.length - 1];
+
+		return last !== undefined && exits(last, throws);
+	}
+
+	return (
+		!throws &&
+		(statement.type === "ReturnStatement" ||
+			statement.type === "BreakStatement" ||
+			statement.type === "ContinueStatement")
+	);
+};
+
+const statementList = (node: TSESTree.Node) => {
+	if (
+		node.type === "BlockStatement" ||
+		node.type === "Program" ||
+		node.type === "StaticBlock"
+	)
+		return node.body;
+
+	return node.type === "SwitchCase" ? node.consequent : undefined;
+};
+
+/**
+ * Checks that narrow one Eden result: `whenTrue` holds when a passing test
+ * proves the request succeeded, `whenFalse` when a failing one does.
+ */
+const resultTests = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	result: EdenResult
+) => {
+	const partOf = (node: TSESTree.Node) => {
+		const target = unwrap(node);
+		if (target.type === "Identifier") {
+			const variable = variableFor(sourceCode, target);
+			if (variable && result.data.has(variable)) return "data";
+
+			return variable && result.error.has(variable) ? "error" : undefined;
+		}
+		if (
+			target.type !== "MemberExpression" ||
+			target.object.type !== "Identifier"
+		)
+			return undefined;
+		const variable = variableFor(sourceCode, target.object);
+		const name = memberName(target);
+		const part: Part | undefined =
+			name === "data" || name === "error" ? name : undefined;
+
+		return variable && result.results.has(variable) ? part : undefined;
+	};
+
+	// The part a test checks, and whether it passes when that part is present.
+	const presence = (test: TSESTree.Node) => {
+		if (
+			test.type !== "BinaryExpression" ||
+			!NULL_CHECKS.has(test.operator)
+		) {
+			const part = partOf(test);
+
+			return part && { part, present: true };
+		}
+		const other = isNullish(test.right) ? test.left : test.right;
+		const part =
+			isNullish(test.left) || isNullish(test.right)
+				? partOf(other)
+				: undefined;
+
+		return part && { part, present: test.operator.startsWith("!") };
+	};
+
+	const whenTrue: TestCheck = (test) => {
+		if (test.type === "UnaryExpression" && test.operator === "!")
+			return whenFalse(test.argument);
+		if (test.type === "LogicalExpression" && test.operator === "&&")
+			return whenTrue(test.left) || whenTrue(test.right);
+		if (test.type === "LogicalExpression" && test.operator === "||")
+			return whenTrue(test.left) && whenTrue(test.right);
+		const checked = presence(test);
+
+		return Boolean(
+			checked && (checked.part === "data") === checked.present
+		);
+	};
+
+	const whenFalse: TestCheck = (test) => {
+		if (test.type === "UnaryExpression" && test.operator === "!")
+			return whenTrue(test.argument);
+		if (test.type === "LogicalExpression" && test.operator === "||")
+			return whenFalse(test.left) || whenFalse(test.right);
+		if (test.type === "LogicalExpression" && test.operator === "&&")
+			return whenFalse(test.left) && whenFalse(test.right);
+		const checked = presence(test);
+
+		return Boolean(
+			checked && (checked.part === "error") === checked.present
+		);
+	};
+
+	return { whenFalse, whenTrue };
+};
+
+export const edenRequireErrorCheck = createRule<Options, MessageIds>({
+	create(context, [options]) {
+		const { sourceCode } = context;
+		const isEdenCall = edenRequestDetector(sourceCode, options);
+		const isQueryFactory = queryFactoryDetector(sourceCode);
+		const edenCalls: TSESTree.CallExpression[] = [];
+		const queryCalls: TSESTree.CallExpression[] = [];
+
+		const readReferences = (variable: TSESLint.Scope.Variable) =>
+			variable.references.flatMap((reference) =>
+				reference.isRead() ? [reference.identifier] : []
+			);
+
+		const declaredVariable = (
+			declarator: TSESTree.VariableDeclarator,
+			node: TSESTree.Node
+		) =>
+			sourceCode
+				.getDeclaredVariables(declarator)
+				.find(({ identifiers }) =>
+					identifiers.some((name) => name === node)
+				);
+
+		// Follows an expression that evaluates to the request's `data`.
+		const trackData = (result: EdenResult, node: TSESTree.Node) => {
+			const top = outermost(node);
+			const { parent } = top;
+			if (
+				parent?.type === "MemberExpression" &&
+				parent.object === top &&
+				!parent.optional
+			)
+				result.uses.push({ kind: "read", node: top });
+			if (
+				parent?.type === "ReturnStatement" ||
+				(parent?.type === "ArrowFunctionExpression" &&
+					parent.body === top)
+			)
+				result.uses.push({ kind: "return", node: top });
+			if (parent?.type !== "VariableDeclarator" || parent.init !== top)
+				return;
+			if (parent.id.type !== "Identifier") {
+				result.uses.push({ kind: "read", node: top });
+
+				return;
+			}
+			const alias = declaredVariable(parent, parent.id);
+			if (!alias || result.data.has(alias)) return;
+			result.data.add(alias);
+			readReferences(alias).forEach((reference) =>
+				trackData(result, reference)
+			);
+		};
+
+		// Follows an expression that evaluates to the whole `{ data, error }` result.
+		const trackResult = (result: EdenResult, node: TSESTree.Node) => {
+			const top = outermost(node);
+			const { parent } = top;
+			if (parent?.type === "MemberExpression" && parent.object === top) {
+				if (memberName(parent) === "data") trackData(result, parent);
+
+				return;
+			}
+			if (parent?.type !== "VariableDeclarator" || parent.init !== top)
+				return;
+			if (parent.id.type === "Identifier") {
+				const variable = declaredVariable(parent, parent.id);
+				if (!variable || result.results.has(variable)) return;
+				result.results.add(variable);
+				readReferences(variable).forEach((reference) =>
+					trackResult(result, reference)
+				);
+
+				return;
+			}
+			if (parent.id.type !== "ObjectPattern") return;
+			parent.id.properties.forEach((property) => {
+				if (property.type !== "Property" || property.computed) return;
+				const key =
+					property.key.type === "Identifier" ? property.key.name : "";
+				const binding =
+					property.value.type === "AssignmentPattern"
+						? property.value.left
+						: property.value;
+				const variable = declaredVariable(parent, binding);
+				if (!variable) return;
+				if (key === "error") result.error.add(variable);
+				if (key !== "data") return;
+				result.data.add(variable);
+				readReferences(variable).forEach((reference) =>
+					trackData(result, reference)
+				);
+			});
+		};
+
+		// `queryFn` callbacks and the same-file helpers whose result they return.
+		const queryFunctions = () => {
+			const functions = new Set<FunctionNode>();
+			const pending = queryCalls.flatMap((call) => {
+				const value = queryOptionsObject(
+					sourceCode,
+					call
+				)?.properties.find(
+					(property) =>
+						property.type === "Property" &&
+						!property.computed &&
+						property.key.type === "Identifier" &&
+						property.key.name === "queryFn"
+				);
+				const callback =
+					value?.type === "Property"
+						? resolveFunction(sourceCode, value.value)
+						: undefined;
+
+				return callback ? [callback] : [];
+			});
+			while (pending.length > 0) {
+				const current = pending.pop();
+				if (!current || functions.has(current)) continue;
+				functions.add(current);
+				pending.push(
+					...functionReturnExpressions(current).flatMap(
+						(expression) => {
+							const returned =
+								expression.type === "AwaitExpression"
+									? expression.argument
+									: expression;
+							const helper =
+								returned.type === "CallExpression"
+									? resolveFunction(
+											sourceCode,
+											returned.callee
+										)
+									: undefined;
+
+							return helper ? [helper] : [];
+						}
+					)
+				);
+			}
+
+			return functions;
+		};
+
+		const isGuarded = (
+			result: EdenResult,
+			node: TSESTree.Node,
+			throws: boolean
+		) => {
+			const { whenFalse, whenTrue } = resultTests(sourceCode, result);
+			const ancestors = sourceCode.getAncestors(node);
+
+			return ancestors.some((ancestor, index) => {
+				const child = ancestors[index + 1] ?? node;
+				if (
+					ancestor.type === "IfStatement" ||
+					ancestor.type === "ConditionalExpression"
+				)
+					return (
+						(child === ancestor.consequent &&
+							whenTrue(ancestor.test)) ||
+						(child === ancestor.alternate &&
+							whenFalse(ancestor.test))
+					);
+				if (ancestor.type === "LogicalExpression")
+					return (
+						child === ancestor.right &&
+						(ancestor.operator === "&&"
+							? whenTrue(ancestor.left)
+							: ancestor.operator === "||" &&
+								whenFalse(ancestor.left))
+					);
+				const statements = statementList(ancestor) ?? [];
+
+				return statements
+					.slice(
+						0,
+						statements.findIndex((statement) => statement === child)
+					)
+					.some(
+						(statement) =>
+							statement.type === "IfStatement" &&
+							whenFalse(statement.test) &&
+							exits(statement.consequent, throws)
+					);
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				if (isEdenCall(node)) edenCalls.push(node);
+				if (isQueryFactory(node)) queryCalls.push(node);
+			},
+			"Program:exit"() {
+				const returningFunctions = queryFunctions();
+				edenCalls.forEach((call) => {
+					const result: EdenResult = {
+						data: new Set(),
+						error: new Set(),
+						results: new Set(),
+						uses: []
+					};
+					trackResult(result, call);
+					result.uses.forEach(({ kind, node }) => {
+						const owner = functionAncestor(node);
+						const returned =
+							kind === "return" &&
+							owner !== undefined &&
+							returningFunctions.has(owner);
+						if (kind === "return" && !returned) return;
+						if (isGuarded(result, node, returned)) return;
+						context.report({
+							data: { name: sourceCode.getText(node) },
+							messageId: returned
+								? "unthrownError"
+								: "uncheckedData",
+							node
+						});
+					});
+				});
+			}
+		};
+	},
+	defaultOptions: [{ clients: ["api"], modules: [] }],
+	meta: {
+		docs: {
+			description:
+				"Require Eden request results to check `error` before reading `data`, and TanStack Query functions to throw `error` before returning `data`."
+		},
+		messages: {
+			uncheckedData:
+				"`{{name}}` is read before the Eden request's `error` is checked, so a failed request crashes here. Guard it with `if (error)` or `if (!data)` first.",
+			unthrownError:
+				"This `queryFn` returns `{{name}}` without throwing the Eden `error` first, so a failed request resolves as a successful query with no data. Add `if (error) throw error` before the return."
+		},
+		schema: [
+			{
+				additionalProperties: false,
+				properties: {
+					clients: {
+						items: { minLength: 1, type: "string" },
+						type: "array"
+					},
+					modules: {
+						items: { minLength: 1, type: "string" },
+						type: "array"
+					}
+				},
+				type: "object"
+			}
+		],
+		type: "problem"
+	},
+	name: "eden-require-error-check"
+});
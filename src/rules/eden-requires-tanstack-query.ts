@@ -0,0 +1,210 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	type EdenClients,
+	edenRequestDetector,
+	queryFactoryDetector
+} from "../utils/eden";
+import {
+	functionAncestor,
+	type FunctionNode,
+	type FunctionReference,
+	memberName,
+	resolveFunction
+} from "../utils/elysia";
+
+type Options = [EdenClients];
+type MessageIds = "outsideQueryFunction" | "outsideReactQuery";
+
+const QUERY_CALLBACK_PROPERTIES = new Set(["mutationFn", "queryFn"]);
+const OUTSIDE_QUERY_MESSAGE =
+	"Execute this Eden request through a TanStack Query queryFn or mutationFn so server state, loading, errors, retries, and invalidation share one lifecycle.";
+
+const propertyName = (node: TSESTree.Property) => {
+	if (node.computed) return undefined;
+	if (node.key.type === "Identifier") return node.key.name;
+
+	return typeof node.key.value === "string" ? node.key.value : undefined;
+};
+
+const isFunctionNode = (node: TSESTree.Node): node is FunctionNode =>
+	node.type === "ArrowFunctionExpression" ||
+	node.type === "FunctionDeclaration" ||
+	node.type === "FunctionExpression";
+
+/**
+ * Whether a `queryFn`/`mutationFn` property belongs to the options of a
+ * query factory call, passed directly or returned from an options thunk
+ * such as `injectQuery(() => ({ ... }))`.
+ */
+const belongsToQueryFactory = (
+	node: TSESTree.Node,
+	isQueryFactory: (call: TSESTree.CallExpression) => boolean
+) => {
+	let current = node.parent;
+	while (
+		current &&
+		current.type !== "CallExpression" &&
+		!isFunctionNode(current)
+	)
+		current = current.parent;
+	if (current?.type === "CallExpression") return isQueryFactory(current);
+	const thunk = current;
+	const call = thunk?.parent;
+
+	return (
+		call?.type === "CallExpression" &&
+		call.arguments.some((argument) => argument === thunk) &&
+		isQueryFactory(call)
+	);
+};
+
+const isMutationCall = (node: TSESTree.CallExpression) => {
+	if (node.callee.type !== "MemberExpression") return false;
+	const method = memberName(node.callee);
+
+	return method === "mutate" || method === "mutateAsync";
+};
+
+const belongsToMutationVariables = (node: FunctionNode) => {
+	let current: TSESTree.Node | undefined = node.parent;
+	while (current) {
+		if (current.type === "CallExpression") return isMutationCall(current);
+		if (
+			current.type === "ArrowFunctionExpression" ||
+			current.type === "FunctionDeclaration" ||
+			current.type === "FunctionExpression"
+		)
+			return false;
+		current = current.parent;
+	}
+
+	return false;
+};
+
+const propagateApprovedFunctions = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	approvedFunctions: Set<FunctionNode>,
+	functionReferences: FunctionReference[]
+) => {
+	const reachable = new Set<FunctionNode>();
+	const visit = (functionNode: FunctionNode) => {
+		if (reachable.has(functionNode)) return;
+		reachable.add(functionNode);
+		functionReferences
+			.filter((reference) => reference.functionNode === functionNode)
+			.map(({ target }) => resolveFunction(sourceCode, target))
+			.filter((target) => target !== undefined)
+			.forEach(visit);
+	};
+	approvedFunctions.forEach(visit);
+	reachable.forEach((functionNode) => approvedFunctions.add(functionNode));
+};
+
+/**
+ * Builds the rule reporting with `messageId`, so the deprecated
+ * `eden-requires-react-query` alias keeps the id it was published with.
+ */
+export const edenQueryRule = (messageId: MessageIds) =>
+	createRule<Options, MessageIds>({
+		create(context, [options]) {
+			const isEdenCall = edenRequestDetector(context.sourceCode, options);
+			const approvedFunctions = new Set<FunctionNode>();
+			const edenCalls: Array<{
+				functionNode: FunctionNode | undefined;
+				node: TSESTree.CallExpression;
+			}> = [];
+			const functionReferences: FunctionReference[] = [];
+			const isQueryFactory = queryFactoryDetector(context.sourceCode);
+			const queryProperties: TSESTree.Property[] = [];
+
+			return {
+				CallExpression(node: TSESTree.CallExpression) {
+					const owner = functionAncestor(node);
+					if (isEdenCall(node))
+						edenCalls.push({ functionNode: owner, node });
+					if (owner && node.callee.type === "Identifier")
+						functionReferences.push({
+							functionNode: owner,
+							target: node.callee
+						});
+					if (owner)
+						node.arguments.forEach((argument) => {
+							if (argument.type !== "SpreadElement")
+								functionReferences.push({
+									functionNode: owner,
+									target: argument
+								});
+						});
+				},
+				"Program:exit"() {
+					for (const property of queryProperties) {
+						const callback = resolveFunction(
+							context.sourceCode,
+							property.value
+						);
+						if (callback) approvedFunctions.add(callback);
+					}
+					for (const { functionNode } of edenCalls)
+						if (
+							functionNode &&
+							belongsToMutationVariables(functionNode)
+						)
+							approvedFunctions.add(functionNode);
+
+					propagateApprovedFunctions(
+						context.sourceCode,
+						approvedFunctions,
+						functionReferences
+					);
+
+					for (const { functionNode, node } of edenCalls)
+						if (
+							!functionNode ||
+							!approvedFunctions.has(functionNode)
+						)
+							context.report({ messageId, node });
+				},
+				Property(node: TSESTree.Property) {
+					const name = propertyName(node);
+					if (
+						name &&
+						QUERY_CALLBACK_PROPERTIES.has(name) &&
+						belongsToQueryFactory(node, isQueryFactory)
+					)
+						queryProperties.push(node);
+				}
+			};
+		},
+		defaultOptions: [{ clients: ["api"], modules: [] }],
+		meta: {
+			docs: {
+				description:
+					"Require browser Eden requests to execute through TanStack Query query and mutation functions in React, Vue, Svelte, Solid, or Angular."
+			},
+			messages: {
+				outsideQueryFunction: OUTSIDE_QUERY_MESSAGE,
+				outsideReactQuery: OUTSIDE_QUERY_MESSAGE
+			},
+			schema: [
+				{
+					additionalProperties: false,
+					properties: {
+						clients: {
+							items: { minLength: 1, type: "string" },
+							type: "array"
+						},
+						modules: {
+							items: { minLength: 1, type: "string" },
+							type: "array"
+						}
+					},
+					type: "object"
+				}
+			],
+			type: "problem"
+		},
+		name: "eden-requires-tanstack-query"
+	});
+
+export const edenRequiresTanstackQuery = edenQueryRule("outsideQueryFunction");
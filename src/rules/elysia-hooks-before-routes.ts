@@ -0,0 +1,124 @@
+import { TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	callMember,
+	type ElysiaCall,
+	type ElysiaChain,
+	elysiaModel,
+	isRouteCall
+} from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "hookAfterRoute" | "moveHook";
+
+const LOCAL_HOOKS = new Set([
+	"derive",
+	"onAfterHandle",
+	"onBeforeHandle",
+	"onError",
+	"resolve"
+]);
+
+const isFunctionArgument = (node: TSESTree.CallExpressionArgument) =>
+	node.type === "ArrowFunctionExpression" ||
+	node.type === "FunctionExpression";
+
+// A `.guard()` without a callback applies its hook to later routes only.
+const isLifecycleHook = ({ arguments: args, method }: ElysiaCall) => {
+	if (LOCAL_HOOKS.has(method)) return true;
+	const last = args[args.length - 1];
+
+	return (
+		method === "guard" && last !== undefined && !isFunctionArgument(last)
+	);
+};
+
+const routeLabel = ({ arguments: [path], method }: ElysiaCall) =>
+	path?.type === "Literal" && typeof path.value === "string"
+		? `\`${method}("${path.value}")\``
+		: `\`${method}()\``;
+
+export const elysiaHooksBeforeRoutes = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+
+		// The `.hook(...)` segment of a chain, from the end of its receiver.
+		const segmentRange = ({ node }: ElysiaCall) => {
+			const member = callMember(node);
+			const range: TSESTree.Range = [
+				member?.object.range[1] ?? node.range[0],
+				node.range[1]
+			];
+
+			return range;
+		};
+
+		const inspectChain = (chain: ElysiaChain) => {
+			const firstRoute = chain.calls.find(isRouteCall);
+			if (!firstRoute) return;
+			const movable =
+				sourceCode.getCommentsInside(chain.node).length === 0;
+			const [insertAt] = segmentRange(firstRoute);
+			chain.calls
+				.filter(
+					(call) =>
+						call.node.range[1] > firstRoute.node.range[1] &&
+						isLifecycleHook(call)
+				)
+				.forEach((call) => {
+					const range = segmentRange(call);
+					const segment = sourceCode.text.slice(...range);
+					context.report({
+						data: {
+							hook: call.method,
+							route: routeLabel(firstRoute)
+						},
+						messageId: "hookAfterRoute",
+						node: callMember(call.node)?.property ?? call.node,
+						suggest: movable
+							? [
+									{
+										data: { hook: call.method },
+										fix: (fixer) => [
+											fixer.insertTextBeforeRange(
+												[insertAt, insertAt],
+												segment
+											),
+											fixer.removeRange(range)
+										],
+										messageId: "moveHook"
+									}
+								]
+							: []
+					});
+				});
+		};
+
+		return {
+			"Program:exit"() {
+				const { chains, isApp } = elysiaModel(sourceCode);
+				// Other routers share the `.get("/path", fn)` shape but not
+				// Elysia's hook ordering.
+				chains
+					.filter((chain) => isApp(chain.node))
+					.forEach(inspectChain);
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Require Elysia lifecycle hooks to be registered before the routes in the same chain that they should apply to."
+		},
+		hasSuggestions: true,
+		messages: {
+			hookAfterRoute:
+				"`.{{hook}}()` is registered after {{route}}, and Elysia only applies local hooks to routes registered after them. Move it before the first route it should cover.",
+			moveHook: "Move `.{{hook}}()` before the first route in this chain."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "elysia-hooks-before-routes"
+});
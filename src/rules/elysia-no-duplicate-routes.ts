@@ -0,0 +1,215 @@
+import { TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	callMember,
+	type ElysiaApp,
+	type ElysiaModel,
+	elysiaModel,
+	isTypedRoute,
+	joinPaths
+} from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "duplicateRoute" | "paramConflict" | "shadowedRoute";
+type RouteEntry = {
+	method: string;
+	node: TSESTree.Node;
+	path: string;
+	plugin: TSESTree.Node | undefined;
+};
+type TableBuilder = (
+	app: ElysiaApp,
+	prefix: string,
+	plugin: TSESTree.Node | undefined,
+	visiting: Set<ElysiaApp>
+) => RouteEntry[];
+type Conflict = {
+	data: Record<string, string>;
+	messageId: MessageIds;
+};
+
+const WILDCARD = "*";
+
+const segmentsOf = (path: string) =>
+	path.split("/").filter((segment) => segment.length > 0);
+
+const isParam = (segment: string | undefined) =>
+	segment?.startsWith(":") ?? false;
+
+const paramName = (segment: string) => segment.slice(1).replace(/\?$/u, "");
+
+const methodsOverlap = (left: string, right: string) =>
+	left === right || left === "all" || right === "all";
+
+// Would both segments match exactly the same request paths?
+const sameSegment = (left: string, right: string | undefined) =>
+	isParam(left) ? isParam(right) : left === right;
+
+const sameShape = (left: string[], right: string[]) =>
+	left.length === right.length &&
+	left.every((segment, index) => sameSegment(segment, right[index]));
+
+const shadows = (wildcard: string[], later: string[]) => {
+	const prefix = wildcard.slice(0, wildcard.length - 1);
+
+	return (
+		wildcard[wildcard.length - 1] === WILDCARD &&
+		later.length >= wildcard.length &&
+		!sameShape(wildcard, later) &&
+		prefix.every(
+			(segment, index) => isParam(segment) || segment === later[index]
+		)
+	);
+};
+
+const conflictBetween = (earlier: RouteEntry, later: RouteEntry) => {
+	const left = segmentsOf(earlier.path);
+	const right = segmentsOf(later.path);
+	const method = later.method.toUpperCase();
+	if (sameShape(left, right)) {
+		const index = left.findIndex(
+			(segment, position) =>
+				isParam(segment) &&
+				paramName(segment) !== paramName(right[position] ?? "")
+		);
+		const renamed = right[index];
+		const original = left[index];
+		const conflict: Conflict =
+			renamed && original
+				? {
+						data: {
+							method,
+							name: paramName(renamed),
+							other: earlier.path,
+							otherName: paramName(original),
+							path: later.path
+						},
+						messageId: "paramConflict"
+					}
+				: {
+						data: { method, path: later.path },
+						messageId: "duplicateRoute"
+					};
+
+		return conflict;
+	}
+	if (!shadows(left, right)) return undefined;
+	const conflict: Conflict = {
+		data: { method, path: later.path, wildcard: earlier.path },
+		messageId: "shadowedRoute"
+	};
+
+	return conflict;
+};
+
+/**
+ * Builds the method and path table of an application in registration order:
+ * its own routes with their prefix and group paths, plus the routes of every
+ * plugin it installs. Plugin routes are reported at the `.use()` argument.
+ */
+const routeTable = (model: ElysiaModel) => {
+	const build: TableBuilder = (app, prefix, plugin, visiting) => {
+		const routes = app.routes
+			.filter(isTypedRoute)
+			.flatMap(({ call, fullPath, method }) => {
+				const path = joinPaths([prefix, fullPath]);
+				if (path === undefined) return [];
+				const node = plugin ?? callMember(call.node)?.property;
+				const entry: RouteEntry = {
+					method,
+					node: node ?? call.node,
+					path,
+					plugin
+				};
+
+				return [entry];
+			});
+		const plugins = app.plugins.flatMap(({ argument, chain }) => {
+			const pluginPrefix = joinPaths([
+				prefix,
+				app.prefix ?? "",
+				...chain.scopes.map((scope) => scope.prefix)
+			]);
+			const local = model.appOf(argument);
+			if (pluginPrefix === undefined) return [];
+			if (local)
+				return visiting.has(local)
+					? []
+					: build(
+							local,
+							pluginPrefix,
+							plugin ?? argument,
+							new Set([...visiting, local])
+						);
+
+			return (model.surfaceOf(argument)?.registrations ?? []).map(
+				({ method, path }) => {
+					const entry: RouteEntry = {
+						method,
+						node: plugin ?? argument,
+						path: joinPaths([pluginPrefix, path]) ?? path,
+						plugin: plugin ?? argument
+					};
+
+					return entry;
+				}
+			);
+		});
+
+		return [...routes, ...plugins].sort(
+			(left, right) => left.node.range[0] - right.node.range[0]
+		);
+	};
+
+	return (app: ElysiaApp) => build(app, "", undefined, new Set([app]));
+};
+
+export const elysiaNoDuplicateRoutes = createRule<Options, MessageIds>({
+	create(context) {
+		const reported = new Set<string>();
+
+		const inspectTable = (entries: RouteEntry[]) =>
+			entries.forEach((later, index) => {
+				const conflict = entries
+					.slice(0, index)
+					.filter(
+						(earlier) =>
+							methodsOverlap(earlier.method, later.method) &&
+							(earlier.plugin === undefined ||
+								earlier.plugin !== later.plugin)
+					)
+					.map((earlier) => conflictBetween(earlier, later))
+					.find((candidate) => candidate !== undefined);
+				const key = `${later.node.range[0]}:${later.method}:${later.path}`;
+				if (!conflict || reported.has(key)) return;
+				reported.add(key);
+				context.report({ ...conflict, node: later.node });
+			});
+
+		return {
+			"Program:exit"() {
+				const model = elysiaModel(context.sourceCode);
+				const tableOf = routeTable(model);
+				model.apps.forEach((app) => inspectTable(tableOf(app)));
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Reject Elysia routes that duplicate, rename the parameters of, or are shadowed by another route on the same application tree."
+		},
+		messages: {
+			duplicateRoute:
+				"{{method}} {{path}} is already registered on this application. Only one of the handlers can answer it.",
+			paramConflict:
+				"{{method}} {{path}} names the parameter `:{{name}}` where {{other}} uses `:{{otherName}}` at the same segment. Use one parameter name for both routes.",
+			shadowedRoute:
+				"{{method}} {{path}} is registered after the wildcard route {{wildcard}}, which already matches it."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "elysia-no-duplicate-routes"
+});
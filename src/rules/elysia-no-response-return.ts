@@ -1,16 +1,26 @@
 import { TSESLint, TSESTree } from "@typescript-eslint/utils";
 import { createRule } from "../createRule";
+import {
+	callReferences,
+	type ElysiaRoute,
+	elysiaModel,
+	functionAncestor,
+	type FunctionNode,
+	type FunctionReference,
+	hookProperty,
+	isElysiaRoute,
+	memberName,
+	resolveFunction,
+	routeFunctions,
+	statusAccess
+} from "../utils/elysia";
 
 type Options = [{ allowNativeResponsePaths?: string[] }];
-type MessageIds = "nativeResponse" | "responseJson";
-type FunctionNode =
-	| TSESTree.ArrowFunctionExpression
-	| TSESTree.FunctionDeclaration
-	| TSESTree.FunctionExpression;
-type FunctionReference = {
-	functionNode: FunctionNode;
-	target: TSESTree.Node;
-};
+type MessageIds =
+	| "nativeResponse"
+	| "responseJson"
+	| "suggestData"
+	| "suggestStatus";
 type ReturnedExpression = (
 	context: RuleContext,
 	node: TSESTree.Node,
@@ -22,111 +32,91 @@ type ResponseUse = {
 	node: TSESTree.CallExpression | TSESTree.NewExpression;
 };
 
-const ROUTE_METHODS = new Set([
-	"all",
-	"connect",
-	"delete",
-	"get",
-	"head",
-	"options",
-	"patch",
-	"post",
-	"put",
-	"trace"
-]);
+type Rewrite = {
+	data: TSESTree.Expression | undefined;
+	exact: boolean;
+	status: TSESTree.Expression | undefined;
+};
 
+type RewriteFix = (
+	use: ResponseUse,
+	rewrite: Rewrite
+) => TSESLint.ReportFixFunction | undefined;
 type RuleContext = Parameters<
 	TSESLint.RuleModule<MessageIds, Options>["create"]
 >[0];
 
-const memberName = (node: TSESTree.MemberExpression) => {
-	if (node.computed)
-		return node.property.type === "Literal" &&
-			typeof node.property.value === "string"
-			? node.property.value
-			: undefined;
+// Allowlisted paths match the path exactly as the route registers it.
+const isAllowedRoute = (allowedPaths: Set<string>, { path }: ElysiaRoute) =>
+	path !== undefined && allowedPaths.has(path);
 
-	return node.property.type === "Identifier" ? node.property.name : undefined;
-};
+const isResponseJson = (node: TSESTree.CallExpression) =>
+	node.callee.type === "MemberExpression" &&
+	node.callee.object.type === "Identifier" &&
+	node.callee.object.name === "Response" &&
+	memberName(node.callee) === "json";
 
-const functionAncestor = (node: TSESTree.Node) => {
-	let current = node.parent;
-	while (current) {
-		if (
-			current.type === "ArrowFunctionExpression" ||
-			current.type === "FunctionDeclaration" ||
-			current.type === "FunctionExpression"
-		)
-			return current;
-		current = current.parent;
-	}
+const isResponseConstructor = (node: TSESTree.NewExpression) =>
+	node.callee.type === "Identifier" && node.callee.name === "Response";
 
-	return undefined;
-};
+const isNumericLiteral = (node: TSESTree.Node) =>
+	node.type === "Literal" && typeof node.value === "number";
 
-const variableFor = (context: RuleContext, identifier: TSESTree.Identifier) =>
-	context.sourceCode
-		.getScope(identifier)
-		.references.find((reference) => reference.identifier === identifier)
-		?.resolved;
+const isEmptyBody = (node: TSESTree.CallExpressionArgument) =>
+	(node.type === "Literal" && node.value === null) ||
+	(node.type === "Identifier" && node.name === "undefined");
 
-const functionFromDefinition = (definition: TSESLint.Scope.Definition) => {
-	if (
-		definition.type === "FunctionName" &&
-		definition.node.type === "FunctionDeclaration"
-	)
-		return definition.node;
-	if (definition.type !== "Variable") return undefined;
-	const initializer = definition.node.init;
+const propertyExpression = (property: TSESTree.Property) => {
+	const { value } = property;
 
-	return initializer?.type === "ArrowFunctionExpression" ||
-		initializer?.type === "FunctionExpression"
-		? initializer
-		: undefined;
+	return value.type === "ArrayPattern" ||
+		value.type === "AssignmentPattern" ||
+		value.type === "ObjectPattern" ||
+		value.type === "TSEmptyBodyFunctionExpression"
+		? undefined
+		: value;
 };
 
-const resolveFunction = (context: RuleContext, node: TSESTree.Node) => {
-	if (
-		node.type === "ArrowFunctionExpression" ||
-		node.type === "FunctionExpression"
-	)
-		return node;
-	if (node.type !== "Identifier") return undefined;
-	const variable = variableFor(context, node);
+/**
+ * Reads a `ResponseInit` literal. Only a lone numeric `status` is rewritten
+ * automatically; headers, other fields, or a computed status need review.
+ */
+const readInit = (init: TSESTree.CallExpressionArgument | undefined) => {
+	if (!init) return { exact: true, status: undefined };
+	if (init.type !== "ObjectExpression") return undefined;
+	const property = hookProperty(init, "status");
+	const status = property && propertyExpression(property);
+	if (property && !status) return undefined;
 
-	return variable?.defs.map(functionFromDefinition).find(Boolean);
+	return {
+		exact:
+			init.properties.length === (status ? 1 : 0) &&
+			(!status || isNumericLiteral(status)),
+		status
+	};
 };
 
-const routeRegistration = (node: TSESTree.CallExpression) => {
-	if (node.callee.type !== "MemberExpression") return undefined;
-	const method = memberName(node.callee);
-	if (!method) return undefined;
-	const pathIndex = method === "route" ? 1 : 0;
-	const handlerIndex = method === "route" ? 2 : 1;
-	if (method !== "route" && !ROUTE_METHODS.has(method)) return undefined;
-	const path = node.arguments[pathIndex];
-	const handler = node.arguments[handlerIndex];
-	if (
-		path?.type !== "Literal" ||
-		typeof path.value !== "string" ||
-		!path.value.startsWith("/") ||
-		!handler ||
-		handler.type === "SpreadElement"
-	)
+const responseRewrite = ({ kind, node }: ResponseUse) => {
+	const [body, init, ...rest] = node.arguments;
+	const parsed = rest.length === 0 ? readInit(init) : undefined;
+	if (!body || body.type === "SpreadElement" || !parsed) return undefined;
+	if (kind === "constructor" && (!isEmptyBody(body) || !parsed.status))
 		return undefined;
+	// Returning anything but an object or array makes Elysia answer with
+	// another content type, so only those are rewritten automatically.
+	const rewrite: Rewrite = {
+		data: kind === "json" ? body : undefined,
+		exact:
+			parsed.exact &&
+			(kind !== "json" ||
+				body.type === "ArrayExpression" ||
+				body.type === "ObjectExpression"),
+		status: parsed.status
+	};
 
-	return { handler, path: path.value };
+	return rewrite;
 };
 
-const isResponseJson = (node: TSESTree.CallExpression) =>
-	node.callee.type === "MemberExpression" &&
-	node.callee.object.type === "Identifier" &&
-	node.callee.object.name === "Response" &&
-	memberName(node.callee) === "json";
-
-const isResponseConstructor = (node: TSESTree.NewExpression) =>
-	node.callee.type === "Identifier" && node.callee.name === "Response";
-
 const preservesReturnedValue = (
 	parent: TSESTree.Node,
 	current: TSESTree.Node
@@ -189,47 +179,88 @@ const isReturnedExpression: ReturnedExpression = (
 	return false;
 };
 
-const propagateRoutePaths = (
-	context: RuleContext,
-	routePaths: Map<FunctionNode, Set<string>>,
-	functionReferences: FunctionReference[]
-) => {
-	const visit = (
-		functionNode: FunctionNode,
-		path: string,
-		visited: Set<FunctionNode>
-	) => {
-		if (visited.has(functionNode)) return;
-		visited.add(functionNode);
-		const paths = routePaths.get(functionNode) ?? new Set();
-		paths.add(path);
-		routePaths.set(functionNode, paths);
-		functionReferences
-			.filter((reference) => reference.functionNode === functionNode)
-			.map(({ target }) => resolveFunction(context, target))
-			.filter((target) => target !== undefined)
-			.forEach((target) => visit(target, path, visited));
-	};
-	const roots = [...routePaths.entries()];
-	roots.forEach(([functionNode, paths]) =>
-		paths.forEach((path) => visit(functionNode, path, new Set()))
-	);
-};
-
 export const elysiaNoResponseReturn = createRule<Options, MessageIds>({
 	create(context, [options]) {
 		const allowedPaths = new Set(options?.allowNativeResponsePaths ?? []);
 		const functionReferences: FunctionReference[] = [];
 		const responseUses: ResponseUse[] = [];
-		const routeRegistrations: Array<{
-			handler: TSESTree.Node;
-			path: string;
-		}> = [];
+		const handlers = new Set<FunctionNode>();
+
+		const expressionText = (
+			node: TSESTree.Expression,
+			replaced: TSESTree.Node
+		) => {
+			const text = context.sourceCode.getText(node);
+			const { parent } = replaced;
+			const isArrowBody =
+				parent?.type === "ArrowFunctionExpression" &&
+				parent.body === replaced;
+
+			return node.type === "SequenceExpression" ||
+				(isArrowBody && node.type === "ObjectExpression")
+				? `(${text})`
+				: text;
+		};
+
+		const rewriteFix: RewriteFix = (use, { data, status }) => {
+			if (!status)
+				return data
+					? (fixer) =>
+							fixer.replaceText(
+								use.node,
+								expressionText(data, use.node)
+							)
+					: undefined;
+			const access =
+				use.functionNode && handlers.has(use.functionNode)
+					? statusAccess(
+							context.sourceCode,
+							use.functionNode,
+							use.node
+						)
+					: undefined;
+			if (!access) return undefined;
+			const args = [status, data].flatMap((argument) =>
+				argument ? [context.sourceCode.getText(argument)] : []
+			);
+			const replacement = `${access.callee}(${args.join(", ")})`;
+
+			return (fixer) => [
+				fixer.replaceText(use.node, replacement),
+				...(access.insert ? [access.insert(fixer)] : [])
+			];
+		};
+
+		const reportUse = (use: ResponseUse) => {
+			const rewrite = responseRewrite(use);
+			const fix = rewrite && rewriteFix(use, rewrite);
+			const messageId =
+				use.kind === "json" ? "responseJson" : "nativeResponse";
+			if (!rewrite || !fix || rewrite.exact) {
+				context.report({ fix, messageId, node: use.node });
+				return;
+			}
+			context.report({
+				messageId,
+				node: use.node,
+				suggest: [
+					rewrite.status
+						? {
+								data: {
+									status: context.sourceCode.getText(
+										rewrite.status
+									)
+								},
+								fix,
+								messageId: "suggestStatus"
+							}
+						: { fix, messageId: "suggestData" }
+				]
+			});
+		};
 
 		return {
 			CallExpression(node: TSESTree.CallExpression) {
-				const route = routeRegistration(node);
-				if (route) routeRegistrations.push(route);
 				const owner = functionAncestor(node);
 				if (isResponseJson(node) && isReturnedExpression(context, node))
 					responseUses.push({
@@ -237,19 +268,7 @@ export const elysiaNoResponseReturn = createRule<Options, MessageIds>({
 						kind: "json",
 						node
 					});
-				if (owner && node.callee.type === "Identifier")
-					functionReferences.push({
-						functionNode: owner,
-						target: node.callee
-					});
-				if (owner)
-					node.arguments.forEach((argument) => {
-						if (argument.type !== "SpreadElement")
-							functionReferences.push({
-								functionNode: owner,
-								target: argument
-							});
-					});
+				functionReferences.push(...callReferences(node));
 			},
 			NewExpression(node: TSESTree.NewExpression) {
 				if (
@@ -263,31 +282,32 @@ export const elysiaNoResponseReturn = createRule<Options, MessageIds>({
 					});
 			},
 			"Program:exit"() {
-				const routePaths = new Map<FunctionNode, Set<string>>();
-				for (const { handler, path } of routeRegistrations) {
-					const handlerFunction = resolveFunction(context, handler);
-					if (!handlerFunction) continue;
-					const paths = routePaths.get(handlerFunction) ?? new Set();
-					paths.add(path);
-					routePaths.set(handlerFunction, paths);
-				}
-
-				propagateRoutePaths(context, routePaths, functionReferences);
+				const routes = elysiaModel(context.sourceCode).routes.filter(
+					isElysiaRoute
+				);
+				routes.forEach(({ handler }) => {
+					const handlerFunction =
+						handler && resolveFunction(context.sourceCode, handler);
+					if (handlerFunction) handlers.add(handlerFunction);
+				});
+				const handlerRoutes = routeFunctions(
+					context.sourceCode,
+					routes,
+					functionReferences
+				);
 
-				for (const { functionNode, kind, node } of responseUses) {
-					if (!functionNode) continue;
-					const paths = routePaths.get(functionNode);
-					if (!paths) continue;
+				for (const use of responseUses) {
+					const reached =
+						use.functionNode && handlerRoutes.get(use.functionNode);
+					if (!reached) continue;
 					if (
-						kind === "constructor" &&
-						[...paths].every((path) => allowedPaths.has(path))
+						use.kind === "constructor" &&
+						[...reached].every((route) =>
+							isAllowedRoute(allowedPaths, route)
+						)
 					)
 						continue;
-					context.report({
-						messageId:
-							kind === "json" ? "responseJson" : "nativeResponse",
-						node
-					});
+					reportUse(use);
 				}
 			}
 		};
@@ -298,11 +318,17 @@ export const elysiaNoResponseReturn = createRule<Options, MessageIds>({
 			description:
 				"Preserve Elysia route inference by rejecting Fetch Response values from application route handlers."
 		},
+		fixable: "code",
+		hasSuggestions: true,
 		messages: {
 			nativeResponse:
 				"Return plain typed data, status(...), or redirect(...) from this Elysia route. Reserve new Response(...) for an explicitly allowlisted streaming, file, or HTML route path.",
 			responseJson:
-				"Return the typed JSON value directly, or status(...) for an error, so Elysia and Eden preserve the route contract."
+				"Return the typed JSON value directly, or status(...) for an error, so Elysia and Eden preserve the route contract.",
+			suggestData:
+				"Return the data directly. Move any headers to `set.headers`.",
+			suggestStatus:
+				"Return `status({{status}}, ...)` instead. Move any headers to `set.headers`."
 		},
 		schema: [
 			{
@@ -0,0 +1,288 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	callReferences,
+	type ElysiaRoute,
+	elysiaModel,
+	functionAncestor,
+	type FunctionNode,
+	type FunctionReference,
+	isElysiaRoute,
+	resolveFunction,
+	routeFunctions,
+	statusAccess,
+	variableFor
+} from "../utils/elysia";
+
+type Options = [{ allowRegisteredErrors?: boolean }];
+type MessageIds = "genericThrow" | "suggestStatus" | "unregisteredThrow";
+type ThrowUse = {
+	errorClass: TSESTree.Identifier;
+	functionNode: FunctionNode;
+	generic: boolean;
+	node: TSESTree.ThrowStatement;
+	thrown: TSESTree.CallExpression | TSESTree.NewExpression;
+};
+type ErrorClassCheck = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	identifier: TSESTree.Identifier,
+	seen: Set<TSESLint.Scope.Variable>
+) => boolean;
+
+const GENERIC_ERRORS = new Set(["Error", "TypeError"]);
+const DEFAULT_STATUS = 500;
+
+// Common error messages and the status code a route should answer with.
+const STATUS_HINTS: Array<{ code: number; pattern: RegExp }> = [
+	{ code: 404, pattern: /not found|missing/iu },
+	{ code: 401, pattern: /unauthori[sz]ed|unauthenticated|not logged in/iu },
+	{ code: 403, pattern: /forbidden|not allowed|permission/iu },
+	{ code: 409, pattern: /conflict|already exists|duplicate/iu },
+	{ code: 400, pattern: /invalid|bad request|required/iu }
+];
+
+const thrownConstruction = (node: TSESTree.ThrowStatement) => {
+	const { argument } = node;
+	if (argument.type !== "NewExpression" && argument.type !== "CallExpression")
+		return undefined;
+
+	return argument.callee.type === "Identifier"
+		? { errorClass: argument.callee, thrown: argument }
+		: undefined;
+};
+
+const classDefinition = (variable: TSESLint.Scope.Variable) =>
+	variable.defs
+		.map(({ node }) => {
+			if (node.type === "ClassDeclaration") return node;
+
+			return node.type === "VariableDeclarator" &&
+				node.init?.type === "ClassExpression"
+				? node.init
+				: undefined;
+		})
+		.find((definition) => definition !== undefined);
+
+// A global `Error` or `TypeError` that no local binding shadows.
+const isGenericError = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	identifier: TSESTree.Identifier
+) =>
+	GENERIC_ERRORS.has(identifier.name) &&
+	(variableFor(sourceCode, identifier)?.defs.length ?? 0) === 0;
+
+/**
+ * Whether `identifier` names a same-file class that extends a built-in
+ * `Error`, directly or through other same-file classes.
+ */
+const isCustomErrorClass: ErrorClassCheck = (sourceCode, identifier, seen) => {
+	const variable = variableFor(sourceCode, identifier);
+	if (!variable || seen.has(variable)) return false;
+	seen.add(variable);
+	const superClass = classDefinition(variable)?.superClass;
+	if (superClass?.type !== "Identifier") return false;
+	if (isGenericError(sourceCode, superClass)) return true;
+
+	return isCustomErrorClass(sourceCode, superClass, seen);
+};
+
+// Is the throw handled by a `try` block inside the same function?
+const isCaught = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	node: TSESTree.ThrowStatement
+) => {
+	const ancestors = sourceCode.getAncestors(node);
+	const owner = functionAncestor(node);
+	const [start, end] = node.range;
+
+	return ancestors
+		.slice(owner ? ancestors.indexOf(owner) + 1 : 0)
+		.some(
+			(ancestor) =>
+				ancestor.type === "TryStatement" &&
+				ancestor.handler !== null &&
+				ancestor.block.range[0] <= start &&
+				end <= ancestor.block.range[1]
+		);
+};
+
+const messageText = (message: TSESTree.CallExpressionArgument | undefined) => {
+	if (message?.type === "Literal" && typeof message.value === "string")
+		return message.value;
+
+	return message?.type === "TemplateLiteral"
+		? message.quasis.map(({ value }) => value.cooked).join(" ")
+		: "";
+};
+
+const suggestedStatus = (
+	thrown: TSESTree.CallExpression | TSESTree.NewExpression
+) => {
+	const text = messageText(thrown.arguments[0]);
+
+	return (
+		STATUS_HINTS.find(({ pattern }) => pattern.test(text))?.code ??
+		DEFAULT_STATUS
+	);
+};
+
+const registeredErrorIdentifiers = (route: ElysiaRoute) =>
+	(route.app?.chains ?? [route.chain])
+		.flatMap(({ calls }) => calls)
+		.filter(({ method }) => method === "error")
+		.flatMap(({ arguments: [first, second] }) => {
+			if (second?.type === "Identifier") return [second];
+			if (first?.type !== "ObjectExpression") return [];
+
+			return first.properties.flatMap((property) =>
+				property.type === "Property" &&
+				property.value.type === "Identifier"
+					? [property.value]
+					: []
+			);
+		});
+
+export const elysiaNoThrowError = createRule<Options, MessageIds>({
+	create(context, [options]) {
+		const { sourceCode } = context;
+		const allowRegistered = options?.allowRegisteredErrors ?? false;
+		const functionReferences: FunctionReference[] = [];
+		const throwUses: ThrowUse[] = [];
+		const handlers = new Set<FunctionNode>();
+
+		const isRegistered = (use: ThrowUse, route: ElysiaRoute) => {
+			const variable = variableFor(sourceCode, use.errorClass);
+
+			return registeredErrorIdentifiers(route).some(
+				(identifier) =>
+					identifier.name === use.errorClass.name &&
+					variableFor(sourceCode, identifier) === variable
+			);
+		};
+
+		const statusSuggestion = (use: ThrowUse) => {
+			const access = handlers.has(use.functionNode)
+				? statusAccess(sourceCode, use.functionNode, use.node)
+				: undefined;
+			if (!access) return [];
+			const code = suggestedStatus(use.thrown);
+			const [message] = use.thrown.arguments;
+			const args = [
+				String(code),
+				...(message && message.type !== "SpreadElement"
+					? [sourceCode.getText(message)]
+					: [])
+			];
+			const semicolon = sourceCode.getText(use.node).endsWith(";")
+				? ";"
+				: "";
+			const replacement = `return ${access.callee}(${args.join(", ")})${semicolon}`;
+			const suggestion: TSESLint.SuggestionReportDescriptor<MessageIds> =
+				{
+					data: { code: String(code) },
+					fix: (fixer) => [
+						fixer.replaceText(use.node, replacement),
+						...(access.insert ? [access.insert(fixer)] : [])
+					],
+					messageId: "suggestStatus"
+				};
+
+			return [suggestion];
+		};
+
+		const inspectUse = (use: ThrowUse, routes: Set<ElysiaRoute>) => {
+			const registered = [...routes].every((route) =>
+				isRegistered(use, route)
+			);
+			if (!use.generic && allowRegistered && registered) return;
+			context.report({
+				data: { name: use.errorClass.name },
+				messageId:
+					use.generic || !allowRegistered
+						? "genericThrow"
+						: "unregisteredThrow",
+				node: use.node,
+				suggest: statusSuggestion(use)
+			});
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				functionReferences.push(...callReferences(node));
+			},
+			"Program:exit"() {
+				const routes =
+					elysiaModel(sourceCode).routes.filter(isElysiaRoute);
+				routes.forEach(({ handler }) => {
+					const handlerFunction =
+						handler && resolveFunction(sourceCode, handler);
+					if (handlerFunction) handlers.add(handlerFunction);
+				});
+				const served = routeFunctions(
+					sourceCode,
+					routes,
+					functionReferences
+				);
+				throwUses.forEach((use) => {
+					const reached = served.get(use.functionNode);
+					if (reached) inspectUse(use, reached);
+				});
+			},
+			ThrowStatement(node: TSESTree.ThrowStatement) {
+				const functionNode = functionAncestor(node);
+				const construction = thrownConstruction(node);
+				if (
+					!functionNode ||
+					!construction ||
+					isCaught(sourceCode, node)
+				)
+					return;
+				const generic = isGenericError(
+					sourceCode,
+					construction.errorClass
+				);
+				if (
+					!generic &&
+					!isCustomErrorClass(
+						sourceCode,
+						construction.errorClass,
+						new Set()
+					)
+				)
+					return;
+				throwUses.push({
+					...construction,
+					functionNode,
+					generic,
+					node
+				});
+			}
+		};
+	},
+	defaultOptions: [{ allowRegisteredErrors: false }],
+	meta: {
+		docs: {
+			description:
+				"Reject throwing `Error` subclasses from Elysia route handlers in favor of typed `status(...)` responses."
+		},
+		hasSuggestions: true,
+		messages: {
+			genericThrow:
+				"Throwing `{{name}}` from an Elysia route answers with 500 and hides the failure from the Eden error union. Return `status(...)` with the matching code instead.",
+			suggestStatus: "Return `status({{code}}, ...)` instead.",
+			unregisteredThrow:
+				"`{{name}}` is not registered with `.error({...})` on this application, so Elysia answers with 500. Register it, or return `status(...)` with the matching code."
+		},
+		schema: [
+			{
+				additionalProperties: false,
+				properties: {
+					allowRegisteredErrors: { type: "boolean" }
+				},
+				type: "object"
+			}
+		],
+		type: "problem"
+	},
+	name: "elysia-no-throw-error"
+});
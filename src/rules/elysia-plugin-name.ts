@@ -0,0 +1,213 @@
+import path from "node:path";
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	type ElysiaApp,
+	type ElysiaCall,
+	elysiaModel,
+	functionAncestor,
+	hookProperty,
+	programAppNames
+} from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "duplicateName" | "missingName" | "nonLiteralName";
+
+// Calls that add state every consumer shares, so re-running them duplicates it.
+const SHARED_METHODS = new Set([
+	"decorate",
+	"derive",
+	"macro",
+	"resolve",
+	"state"
+]);
+const HOOK_METHODS = new Set([
+	"onAfterHandle",
+	"onAfterResponse",
+	"onBeforeHandle",
+	"onError",
+	"onMapResponse",
+	"onParse",
+	"onRequest",
+	"onTransform"
+]);
+const PROPAGATED_SCOPES = new Set(["global", "scoped"]);
+
+const literalText = (node: TSESTree.Node | undefined) => {
+	if (node?.type === "Literal" && typeof node.value === "string")
+		return node.value;
+
+	return node?.type === "TemplateLiteral" && node.expressions.length === 0
+		? node.quasis.map(({ value }) => value.cooked).join("")
+		: undefined;
+};
+
+const isGlobalHook = ({ arguments: [options], method }: ElysiaCall) => {
+	if (method === "as")
+		return PROPAGATED_SCOPES.has(literalText(options) ?? "");
+	if (method === "onRequest") return true;
+	const scope =
+		options?.type === "ObjectExpression"
+			? literalText(hookProperty(options, "as")?.value)
+			: undefined;
+
+	return HOOK_METHODS.has(method) && PROPAGATED_SCOPES.has(scope ?? "");
+};
+
+const sharedCall = (app: ElysiaApp) =>
+	app.chains
+		.flatMap(({ calls }) => calls)
+		.find((call) => SHARED_METHODS.has(call.method) || isGlobalHook(call));
+
+const chainParent = (node: TSESTree.Node) => {
+	const { parent } = node;
+	if (
+		parent?.type === "TSAsExpression" ||
+		parent?.type === "TSSatisfiesExpression"
+	)
+		return parent;
+	const call = parent?.parent;
+
+	return parent?.type === "MemberExpression" &&
+		parent.object === node &&
+		call?.type === "CallExpression" &&
+		call.callee === parent
+		? call
+		: undefined;
+};
+
+// Walks from `new Elysia()` up through its fluent chain and type wrappers.
+const chainValue = (construction: TSESTree.NewExpression) => {
+	let current: TSESTree.Node = construction;
+	let next = chainParent(current);
+	while (next) {
+		current = next;
+		next = chainParent(current);
+	}
+
+	return current;
+};
+
+// A function declaration is exported directly; a variable through its
+// declaration.
+const isExportedVariable = (variable: TSESLint.Scope.Variable) =>
+	variable.defs.some(
+		({ node }) =>
+			node.parent?.type === "ExportNamedDeclaration" ||
+			node.parent?.parent?.type === "ExportNamedDeclaration"
+	) ||
+	variable.references.some(
+		({ identifier: { parent } }) =>
+			parent.type === "ExportSpecifier" ||
+			parent.type === "ExportDefaultDeclaration"
+	);
+
+export const elysiaPluginName = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+
+		const declaredName = (node: TSESTree.Node) => {
+			if (node.parent?.type === "ExportDefaultDeclaration")
+				return "default";
+			if (
+				node.parent?.type !== "VariableDeclarator" ||
+				node.parent.init !== node ||
+				node.parent.id.type !== "Identifier"
+			)
+				return undefined;
+			const [variable] = sourceCode.getDeclaredVariables(node.parent);
+
+			return variable && isExportedVariable(variable)
+				? node.parent.id.name
+				: undefined;
+		};
+
+		// The exported constant or factory that produces the plugin, if any.
+		const exportedName = (app: ElysiaApp) => {
+			const value = chainValue(app.construction);
+			const direct = declaredName(value);
+			if (direct) return direct;
+			const factory = functionAncestor(value);
+			const returned =
+				value.parent?.type === "ReturnStatement" ||
+				(value.parent?.type === "ArrowFunctionExpression" &&
+					value.parent.body === value);
+			if (!factory || !returned) return undefined;
+			if (factory.type !== "FunctionDeclaration")
+				return declaredName(factory);
+			const [variable] = sourceCode.getDeclaredVariables(factory);
+			if (factory.parent.type === "ExportDefaultDeclaration")
+				return factory.id?.name ?? "default";
+
+			return variable && isExportedVariable(variable)
+				? factory.id?.name
+				: undefined;
+		};
+
+		const otherFiles = (name: string) =>
+			(programAppNames(sourceCode)?.get(name) ?? [])
+				.filter((fileName) => fileName !== context.filename)
+				.map((fileName) =>
+					path.relative(path.dirname(context.filename), fileName)
+				);
+
+		const inspectNames = (apps: ElysiaApp[]) => {
+			const seen = new Set<string>();
+			apps.forEach(({ options }) => {
+				const property = hookProperty(options, "name");
+				const name = literalText(property?.value);
+				if (!property || !name || hookProperty(options, "seed")) return;
+				const [elsewhere] = otherFiles(name);
+				const location = seen.has(name)
+					? "in this file"
+					: elsewhere && `in ${elsewhere}`;
+				seen.add(name);
+				if (!location) return;
+				context.report({
+					data: { location, name },
+					messageId: "duplicateName",
+					node: property.value
+				});
+			});
+		};
+
+		const inspectPlugin = (app: ElysiaApp) => {
+			const plugin = exportedName(app);
+			const shared = plugin ? sharedCall(app) : undefined;
+			if (!plugin || !shared) return;
+			const property = hookProperty(app.options, "name");
+			if (property && literalText(property.value) !== undefined) return;
+			context.report({
+				data: { method: shared.method, plugin },
+				messageId: property ? "nonLiteralName" : "missingName",
+				node: property?.value ?? app.construction
+			});
+		};
+
+		return {
+			"Program:exit"() {
+				const { apps } = elysiaModel(sourceCode);
+				apps.forEach(inspectPlugin);
+				inspectNames(apps);
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Require exported Elysia plugins that share state or hooks to declare a unique string-literal `name` so Elysia deduplicates them."
+		},
+		messages: {
+			duplicateName:
+				'The Elysia plugin name "{{name}}" is already used {{location}}. Elysia deduplicates plugins by name, so one of them will be skipped.',
+			missingName:
+				"Exported plugin `{{plugin}}` calls `.{{method}}()` but its `new Elysia()` has no `name`, so every `.use()` runs it again and duplicates its hooks and decorators. Add a unique string-literal `name`.",
+			nonLiteralName:
+				"Exported plugin `{{plugin}}` calls `.{{method}}()`; give it a string-literal `name` so its deduplication key is visible and unique."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "elysia-plugin-name"
+});
@@ -0,0 +1,148 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	type ElysiaRoute,
+	elysiaModel,
+	type FunctionNode,
+	hookProperty,
+	isElysiaRoute,
+	memberName,
+	resolveFunction,
+	routeHooks
+} from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "missingSchema";
+type RequestPartUse = {
+	node: TSESTree.Node;
+	part: string;
+};
+
+const REQUEST_PARTS = new Set(["body", "headers", "params", "query"]);
+// Elysia only parses a request body for these methods.
+const BODY_METHODS = new Set(["patch", "post", "put"]);
+
+const propertyName = (property: TSESTree.Property) => {
+	if (property.key.type === "Identifier" && !property.computed)
+		return property.key.name;
+
+	return property.key.type === "Literal" &&
+		typeof property.key.value === "string"
+		? property.key.value
+		: undefined;
+};
+
+const destructuredParts = (pattern: TSESTree.ObjectPattern) =>
+	pattern.properties.flatMap((property) => {
+		const part =
+			property.type === "Property" ? propertyName(property) : undefined;
+
+		return part && REQUEST_PARTS.has(part)
+			? [{ node: property, part }]
+			: [];
+	});
+
+const accessedParts = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	handler: FunctionNode,
+	parameter: TSESTree.Identifier
+) => {
+	const variable = sourceCode
+		.getDeclaredVariables(handler)
+		.find(({ name }) => name === parameter.name);
+
+	return (variable?.references ?? []).flatMap(({ identifier }) => {
+		const { parent } = identifier;
+		// `const { body } = context`
+		if (
+			parent.type === "VariableDeclarator" &&
+			parent.init === identifier &&
+			parent.id.type === "ObjectPattern"
+		)
+			return destructuredParts(parent.id);
+		const part =
+			parent.type === "MemberExpression" && parent.object === identifier
+				? memberName(parent)
+				: undefined;
+
+		return part && REQUEST_PARTS.has(part) ? [{ node: parent, part }] : [];
+	});
+};
+
+const requestPartUses = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	handler: FunctionNode
+) => {
+	const [parameter] = handler.params;
+	const uses: RequestPartUse[] =
+		parameter?.type === "ObjectPattern" ? destructuredParts(parameter) : [];
+	if (parameter?.type === "Identifier")
+		uses.push(...accessedParts(sourceCode, handler, parameter));
+
+	return uses;
+};
+
+const requiresSchema = (route: ElysiaRoute, part: string) =>
+	part !== "body" || BODY_METHODS.has(route.method);
+
+// A string value is a reference to a schema registered with `.model()`.
+const declaresSchema = (route: ElysiaRoute, part: string) =>
+	routeHooks(route).some((hook) => {
+		const property = hookProperty(hook, part);
+
+		return Boolean(
+			property &&
+			!(
+				property.value.type === "Identifier" &&
+				property.value.name === "undefined"
+			)
+		);
+	});
+
+export const elysiaRequireRequestSchemas = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+
+		const inspectRoute = (route: ElysiaRoute) => {
+			const handler =
+				route.handler && resolveFunction(sourceCode, route.handler);
+			if (!handler) return;
+			requestPartUses(sourceCode, handler)
+				.filter(({ part }) => requiresSchema(route, part))
+				.filter(({ part }) => !declaresSchema(route, part))
+				.forEach(({ node, part }) =>
+					context.report({
+						data: {
+							method: route.method.toUpperCase(),
+							part,
+							path: route.fullPath ?? route.path ?? "this path"
+						},
+						messageId: "missingSchema",
+						node
+					})
+				);
+		};
+
+		return {
+			"Program:exit"() {
+				elysiaModel(sourceCode)
+					.routes.filter(isElysiaRoute)
+					.forEach(inspectRoute);
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Require Elysia routes to declare a schema for every request body, query, params, or headers value their handler reads."
+		},
+		messages: {
+			missingSchema:
+				"{{method}} {{path}} reads `{{part}}` without a `{{part}}` schema. Declare it in the route hook, an enclosing `.guard()`, or as a `.model()` reference so Elysia validates it and Eden infers its type."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "elysia-require-request-schemas"
+});
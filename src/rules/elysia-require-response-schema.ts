@@ -0,0 +1,154 @@
+import { TSESTree } from "@typescript-eslint/utils";
+import { createRule } from "../createRule";
+import {
+	callMember,
+	callReferences,
+	type ElysiaRoute,
+	elysiaModel,
+	functionAncestor,
+	type FunctionNode,
+	type FunctionReference,
+	hookProperty,
+	isElysiaRoute,
+	memberName,
+	reachableFunctions,
+	resolveFunction,
+	routeHooks
+} from "../utils/elysia";
+
+type Options = [];
+type MessageIds = "missingResponse" | "undeclaredStatus";
+type StatusUse = {
+	code: string;
+	functionNode: FunctionNode;
+	node: TSESTree.CallExpression;
+};
+
+// Elysia validates a single response schema against successful responses.
+const DEFAULT_STATUS = "200";
+
+const isStatusCall = (node: TSESTree.CallExpression) => {
+	const member = callMember(node);
+	if (member) return memberName(member) === "status";
+
+	return node.callee.type === "Identifier" && node.callee.name === "status";
+};
+
+const statusCode = (node: TSESTree.CallExpression) => {
+	const [code] = node.arguments;
+
+	return code?.type === "Literal" && typeof code.value === "number"
+		? String(code.value)
+		: undefined;
+};
+
+const statusKey = (property: TSESTree.ObjectLiteralElement) => {
+	if (property.type !== "Property" || property.computed) return undefined;
+	const { key } = property;
+	if (key.type === "Identifier") return key.name;
+
+	return key.type === "Literal" ? String(key.value) : undefined;
+};
+
+/**
+ * The status codes a `response` hook declares, or `undefined` when the map
+ * is built dynamically and cannot be read.
+ */
+const declaredStatuses = (response: TSESTree.Property["value"]) => {
+	if (response.type !== "ObjectExpression") return new Set([DEFAULT_STATUS]);
+	const keys = response.properties.map(statusKey);
+
+	return keys.every((key) => key !== undefined) ? new Set(keys) : undefined;
+};
+
+const responseHook = (route: ElysiaRoute) =>
+	routeHooks(route)
+		.map((hook) => hookProperty(hook, "response"))
+		.find((property) => property !== undefined);
+
+export const elysiaRequireResponseSchema = createRule<Options, MessageIds>({
+	create(context) {
+		const { sourceCode } = context;
+		const functionReferences: FunctionReference[] = [];
+		const statusUses: StatusUse[] = [];
+		const reported = new Set<TSESTree.Node>();
+
+		const reportStatuses = (
+			route: ElysiaRoute,
+			handler: FunctionNode,
+			statuses: Set<string>
+		) => {
+			const reachable = reachableFunctions(
+				sourceCode,
+				handler,
+				functionReferences
+			);
+			statusUses
+				.filter(({ functionNode }) => reachable.has(functionNode))
+				.filter(
+					({ code, node }) =>
+						!statuses.has(code) && !reported.has(node)
+				)
+				.forEach(({ code, node }) => {
+					reported.add(node);
+					context.report({
+						data: {
+							code,
+							path: route.fullPath ?? route.path ?? "this route"
+						},
+						messageId: "undeclaredStatus",
+						node
+					});
+				});
+		};
+
+		const inspectRoute = (route: ElysiaRoute) => {
+			const handler =
+				route.handler && resolveFunction(sourceCode, route.handler);
+			if (!handler) return;
+			const response = responseHook(route);
+			if (!response) {
+				context.report({
+					data: { method: route.method.toUpperCase() },
+					messageId: "missingResponse",
+					node:
+						callMember(route.call.node)?.property ?? route.call.node
+				});
+				return;
+			}
+			const statuses = declaredStatuses(response.value);
+			if (statuses) reportStatuses(route, handler, statuses);
+		};
+
+		return {
+			CallExpression(node: TSESTree.CallExpression) {
+				functionReferences.push(...callReferences(node));
+				const functionNode = functionAncestor(node);
+				const code = isStatusCall(node) ? statusCode(node) : undefined;
+				if (functionNode && code)
+					statusUses.push({ code, functionNode, node });
+			},
+			"Program:exit"() {
+				elysiaModel(sourceCode)
+					.routes.filter(isElysiaRoute)
+					.forEach(inspectRoute);
+			}
+		};
+	},
+	defaultOptions: [],
+	meta: {
+		docs: {
+			description:
+				"Require Elysia routes to declare a `response` schema that covers every numeric status code their handler returns."
+		},
+		messages: {
+			missingResponse:
+				"Declare a `response` schema for this {{method}} route so Elysia validates its output and Eden clients receive exact status-discriminated types.",
+			undeclaredStatus:
+				"`status({{code}})` is not declared in the `response` map for {{path}}. Add a `{{code}}` schema so Eden clients can narrow on it."
+		},
+		schema: [],
+		type: "problem"
+	},
+	name: "elysia-require-response-schema"
+});
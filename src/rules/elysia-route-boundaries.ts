@@ -1,5 +1,12 @@
-import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import { TSESTree } from "@typescript-eslint/utils";
 import { createRule } from "../createRule";
+import {
+	definitionExpressions,
+	type ElysiaSurface,
+	elysiaModel,
+	functionReturnExpressions,
+	variableFor
+} from "../utils/elysia";
 
 type Options = [
 	{
@@ -10,6 +17,7 @@ type Options = [
 type MessageIds =
 	| "missingRouteContract"
 	| "routeContractLocation"
+	| "routeModuleLocation"
 	| "routeSurfaceLocation"
 	| "terminalGraphType";
 
@@ -23,26 +31,6 @@ const DEFAULT_COMPOSITION_FILES = [
 	"src/server.ts",
 	"server.ts"
 ];
-const ROUTE_METHODS = new Set([
-	"all",
-	"connect",
-	"delete",
-	"get",
-	"group",
-	"head",
-	"mount",
-	"options",
-	"patch",
-	"post",
-	"put",
-	"route",
-	"trace",
-	"ws"
-]);
-
-type RuleContext = Parameters<
-	TSESLint.RuleModule<MessageIds, Options>["create"]
->[0];
 
 const normalizePath = (path: string) =>
 	path.replaceAll("\\", "/").replace(/^\.\//u, "").replace(/\/$/u, "");
@@ -67,136 +55,8 @@ const matchesFile = (filename: string, configuredFile: string) => {
 	);
 };
 
-const memberName = (node: TSESTree.MemberExpression) => {
-	if (node.computed)
-		return node.property.type === "Literal" &&
-			typeof node.property.value === "string"
-			? node.property.value
-			: undefined;
-
-	return node.property.type === "Identifier" ? node.property.name : undefined;
-};
-
-const callMember = (node: TSESTree.CallExpression) =>
-	node.callee.type === "MemberExpression" ? node.callee : undefined;
-
-const chainAnalysis = (expression: TSESTree.Expression) => {
-	let current = expression;
-	let registersRoute = false;
-	let registersHttpPath = false;
-
-	while (current.type === "CallExpression") {
-		const member = callMember(current);
-		if (!member || member.object.type === "Super") break;
-		const method = memberName(member);
-		const isRouteMethod = Boolean(method && ROUTE_METHODS.has(method));
-		const [firstArgument] = current.arguments;
-		registersRoute ||= isRouteMethod;
-		registersHttpPath ||=
-			isRouteMethod &&
-			firstArgument?.type === "Literal" &&
-			typeof firstArgument.value === "string" &&
-			firstArgument.value.startsWith("/");
-		current = member.object;
-	}
-
-	return { registersHttpPath, registersRoute, root: current };
-};
-
-const variableFor = (context: RuleContext, id: TSESTree.Identifier) => {
-	const scope = context.sourceCode.getScope(id);
-
-	return scope.references.find((reference) => reference.identifier === id)
-		?.resolved;
-};
-
-const blockReturnExpressions = (body: TSESTree.BlockStatement) =>
-	body.body.flatMap((statement) =>
-		statement.type === "ReturnStatement" && statement.argument
-			? [statement.argument]
-			: []
-	);
-
-const functionReturnExpressions = (
-	functionNode:
-		| TSESTree.ArrowFunctionExpression
-		| TSESTree.FunctionDeclaration
-		| TSESTree.FunctionExpression
-) =>
-	functionNode.body.type === "BlockStatement"
-		? blockReturnExpressions(functionNode.body)
-		: [functionNode.body];
-
-const definitionExpressions = (definition: TSESLint.Scope.Definition) => {
-	if (definition.type === "Variable") {
-		const initializer = definition.node.init;
-		if (!initializer) return [];
-		if (
-			initializer.type === "ArrowFunctionExpression" ||
-			initializer.type === "FunctionExpression"
-		)
-			return functionReturnExpressions(initializer);
-
-		return [initializer];
-	}
-	if (
-		definition.type === "FunctionName" &&
-		definition.node.type === "FunctionDeclaration"
-	)
-		return functionReturnExpressions(definition.node);
-
-	return [];
-};
-
-const elysiaConstructorLocal = (node: TSESTree.ImportDeclaration) => {
-	const specifier = node.specifiers.find(
-		(candidate) =>
-			candidate.type === "ImportSpecifier" &&
-			candidate.imported.type === "Identifier" &&
-			candidate.imported.name === "Elysia"
-	);
-
-	return specifier?.local.name;
-};
-
-const isElysiaExpression = (
-	context: RuleContext,
-	expression: TSESTree.Expression,
-	elysiaConstructors: Set<string>,
-	seen = new Set<TSESLint.Scope.Variable>()
-): boolean => {
-	const { root } = chainAnalysis(expression);
-	if (
-		root.type === "NewExpression" &&
-		root.callee.type === "Identifier" &&
-		elysiaConstructors.has(root.callee.name)
-	)
-		return true;
-	if (root.type !== "Identifier") return false;
-	const variable = variableFor(context, root);
-	if (!variable || seen.has(variable)) return false;
-	seen.add(variable);
-
-	return variable.defs.some((definition) =>
-		definitionExpressions(definition).some((result) =>
-			isElysiaExpression(context, result, elysiaConstructors, seen)
-		)
-	);
-};
-
-const isRouteExpression = (
-	context: RuleContext,
-	expression: TSESTree.Expression,
-	elysiaConstructors: Set<string>
-) => {
-	const analysis = chainAnalysis(expression);
-
-	return (
-		analysis.registersRoute &&
-		(analysis.registersHttpPath ||
-			isElysiaExpression(context, expression, elysiaConstructors))
-	);
-};
+const isRouteSurface = (surface: ElysiaSurface | undefined) =>
+	Boolean(surface?.routes && (surface.httpPath || surface.app));
 
 const declaratorRouteExpressions = (node: TSESTree.VariableDeclarator) => {
 	const { init } = node;
@@ -231,7 +91,13 @@ export const elysiaRouteBoundaries = createRule<Options, MessageIds>({
 		const isCompositionFile = compositionFiles.some((file) =>
 			matchesFile(filename, file)
 		);
-		const elysiaConstructors = new Set<string>();
+		const { isApp, isRouteExpression, plugins, surfaceOf } = elysiaModel(
+			context.sourceCode
+		);
+		const isOutsideRouteDirectories = (file: string) =>
+			!routeDirectories.some((directory) =>
+				isInsideDirectory(normalizePath(file), directory)
+			);
 		const exportedRouteSymbols = new Map<string, TSESTree.Node>();
 		const queriedTypes: Array<{
 			alias: TSESTree.TSTypeAliasDeclaration;
@@ -240,18 +106,21 @@ export const elysiaRouteBoundaries = createRule<Options, MessageIds>({
 
 		const declaratorIsRoute = (node: TSESTree.VariableDeclarator) =>
 			declaratorRouteExpressions(node).some((expression) =>
-				isRouteExpression(context, expression, elysiaConstructors)
+				isRouteExpression(expression)
 			);
 		const inspectQueriedType = ({
 			alias,
 			identifier
 		}: (typeof queriedTypes)[number]) => {
-			const variable = variableFor(context, identifier);
+			const variable = variableFor(context.sourceCode, identifier);
 			if (!variable) return;
 			const expressions = variable.defs.flatMap(definitionExpressions);
-			const referencesRoute = expressions.some((expression) =>
-				isRouteExpression(context, expression, elysiaConstructors)
-			);
+			// Imported bindings have no local definition to read.
+			const imported =
+				expressions.length === 0 ? surfaceOf(identifier) : undefined;
+			const referencesRoute =
+				isRouteSurface(imported) ||
+				expressions.some((expression) => isRouteExpression(expression));
 			if (referencesRoute && isCompositionFile) {
 				context.report({
 					data: { directory: routeDirectories[0] ?? "routes" },
@@ -262,9 +131,8 @@ export const elysiaRouteBoundaries = createRule<Options, MessageIds>({
 			}
 			if (
 				!referencesRoute &&
-				expressions.some((expression) =>
-					isElysiaExpression(context, expression, elysiaConstructors)
-				)
+				(imported?.app ||
+					expressions.some((expression) => isApp(expression)))
 			)
 				context.report({
 					messageId: "terminalGraphType",
@@ -272,6 +140,25 @@ export const elysiaRouteBoundaries = createRule<Options, MessageIds>({
 				});
 		};
 
+		const inspectPlugin = ({ argument }: (typeof plugins)[number]) => {
+			const surface = surfaceOf(argument);
+			if (
+				!surface ||
+				!isRouteSurface(surface) ||
+				normalizePath(surface.fileName) === filename ||
+				!isOutsideRouteDirectories(surface.fileName)
+			)
+				return;
+			context.report({
+				data: {
+					directory: routeDirectories[0] ?? "routes",
+					plugin: context.sourceCode.getText(argument)
+				},
+				messageId: "routeModuleLocation",
+				node: argument
+			});
+		};
+
 		return {
 			ExportNamedDeclaration(node: TSESTree.ExportNamedDeclaration) {
 				const { declaration } = node;
@@ -290,22 +177,14 @@ export const elysiaRouteBoundaries = createRule<Options, MessageIds>({
 					declaration.type === "FunctionDeclaration" &&
 					declaration.id &&
 					functionReturnExpressions(declaration).some((expression) =>
-						isRouteExpression(
-							context,
-							expression,
-							elysiaConstructors
-						)
+						isRouteExpression(expression)
 					)
 				)
 					exportedRouteSymbols.set(declaration.id.name, declaration);
 			},
-			ImportDeclaration(node: TSESTree.ImportDeclaration) {
-				if (node.source.value !== "elysia") return;
-				const localName = elysiaConstructorLocal(node);
-				if (localName) elysiaConstructors.add(localName);
-			},
 			"Program:exit"() {
 				queriedTypes.forEach(inspectQueriedType);
+				plugins.forEach(inspectPlugin);
 
 				if (!isRouteFile) return;
 				const contractedSymbols = new Set(
@@ -352,6 +231,8 @@ export const elysiaRouteBoundaries = createRule<Options, MessageIds>({
 				"Export an inferred type contract that references `{{symbol}}` so consumers use this isolated route surface instead of the terminal server graph.",
 			routeContractLocation:
 				"Move this inferred route contract and its route surface under `{{directory}}`; filenames and symbol names are unrestricted.",
+			routeModuleLocation:
+				"`{{plugin}}` registers routes in a module outside the route directories. Move that route surface under `{{directory}}` before installing it.",
 			routeSurfaceLocation:
 				"Move this route-bearing surface under `{{directory}}`; filenames and symbol names are unrestricted.",
 			terminalGraphType:
@@ -57,5 +57,5 @@ export const maxJSXNesting = createRule<Options, MessageIds>({
 		],
 		type: "suggestion"
 	},
-	name: "max-jsxnesting"
+	name: "max-jsx-nesting"
 });
@@ -1,11 +1,91 @@
 import { TSESTree } from "@typescript-eslint/utils";
 import { createRule } from "../createRule";
 
-type Options = [];
-type MessageIds = "drizzleType" | "typeboxEscape";
+type LibraryId = "arktype" | "typebox" | "valibot" | "zod";
+type Options = [
+	{
+		allowMethods?: string[];
+		libraries?: LibraryId[];
+		requireSchemaTypes?: boolean;
+	}
+];
+type MessageIds =
+	| "additionalProperties"
+	| "drizzleType"
+	| "typeboxEscape"
+	| "unboundedRecord"
+	| "untiedDrizzleType"
+	| "validatorEscape";
+type ValidatorLibrary = {
+	// The chained method whose argument validates undeclared keys.
+	catchall: string | undefined;
+	// Methods chained onto a schema, such as Zod's `.passthrough()`.
+	chainedEscapes: Set<string>;
+	// Whether the module's default export is the schema namespace.
+	defaultNamespace: boolean;
+	// Schema factories that accept unvalidated values, such as `z.any()`.
+	escapes: Set<string>;
+	modules: Set<string>;
+	name: string;
+	// Named exports that act as the schema namespace, such as `t` or `z`.
+	namespaces: Set<string>;
+	// The factory whose last argument is the value schema of a record.
+	record: string | undefined;
+};
+// A local binding for a library's namespace, or for one of its factories.
+type LibraryBinding = { id: LibraryId; method: string | undefined };
+type TypeCheck = (node: TSESTree.TypeNode, seen: Set<string>) => boolean;
 
-const TYPEBOX_MODULES = new Set(["@sinclair/typebox", "elysia"]);
-const TYPEBOX_ESCAPE_METHODS = new Set(["Any", "Unknown", "Unsafe"]);
+const LIBRARIES: Record<LibraryId, ValidatorLibrary> = {
+	arktype: {
+		catchall: undefined,
+		chainedEscapes: new Set(),
+		defaultNamespace: false,
+		escapes: new Set(["any", "unknown"]),
+		modules: new Set(["arktype"]),
+		name: "ArkType",
+		namespaces: new Set(["type"]),
+		record: undefined
+	},
+	typebox: {
+		catchall: undefined,
+		chainedEscapes: new Set(),
+		defaultNamespace: false,
+		escapes: new Set(["Any", "Unknown", "Unsafe"]),
+		modules: new Set(["@sinclair/typebox", "elysia"]),
+		name: "TypeBox",
+		namespaces: new Set(["Type", "t"]),
+		record: "Record"
+	},
+	valibot: {
+		catchall: undefined,
+		chainedEscapes: new Set(),
+		defaultNamespace: false,
+		escapes: new Set(["any", "looseObject", "looseTuple", "unknown"]),
+		modules: new Set(["valibot"]),
+		name: "Valibot",
+		namespaces: new Set(),
+		record: "record"
+	},
+	zod: {
+		catchall: "catchall",
+		chainedEscapes: new Set(["loose", "passthrough"]),
+		defaultNamespace: true,
+		escapes: new Set(["any", "looseObject", "unknown"]),
+		modules: new Set(["zod", "zod/mini", "zod/v3", "zod/v4"]),
+		name: "Zod",
+		namespaces: new Set(["z"]),
+		record: "record"
+	}
+};
+const LIBRARY_IDS: LibraryId[] = ["arktype", "typebox", "valibot", "zod"];
+const ARRAY_TYPES = new Set(["Array", "ReadonlyArray"]);
+const ARKTYPE_KEYWORD = /\b(any|unknown)\b/u;
+// Quoted string-literal units such as `'unknown'`, which name a value.
+const ARKTYPE_UNIT = /'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`\\]|\\.)*`/gu;
+
+const arktypeKeyword = (definition: string) =>
+	ARKTYPE_KEYWORD.exec(definition.replace(ARKTYPE_UNIT, ""))?.[1];
 
 const memberName = (node: TSESTree.MemberExpression) => {
 	if (node.computed) {
@@ -18,16 +98,28 @@ const memberName = (node: TSESTree.MemberExpression) => {
 	return node.property.type === "Identifier" ? node.property.name : null;
 };
 
-const typeboxNamespaceName = (specifier: TSESTree.ImportClause) => {
-	if (specifier.type === "ImportNamespaceSpecifier")
-		return specifier.local.name;
-	if (specifier.type !== "ImportSpecifier") return null;
-	if (specifier.imported.type !== "Identifier") return null;
-	if (specifier.imported.name !== "Type" && specifier.imported.name !== "t") {
-		return null;
-	}
+const libraryBinding = (id: LibraryId, specifier: TSESTree.ImportClause) => {
+	const library = LIBRARIES[id];
+	const name =
+		specifier.type === "ImportSpecifier" &&
+		specifier.imported.type === "Identifier"
+			? specifier.imported.name
+			: undefined;
+	const isNamespace =
+		specifier.type === "ImportNamespaceSpecifier" ||
+		(specifier.type === "ImportDefaultSpecifier" &&
+			library.defaultNamespace) ||
+		(name !== undefined && library.namespaces.has(name));
+	const isFactory =
+		name !== undefined &&
+		(library.escapes.has(name) || library.record === name);
+	if (!isNamespace && !isFactory) return null;
+	const binding: LibraryBinding = {
+		id,
+		method: isNamespace ? undefined : name
+	};
 
-	return specifier.local.name;
+	return binding;
 };
 
 const isNode = (value: unknown): value is TSESTree.Node =>
@@ -60,67 +152,374 @@ const containsUnboundedType = (
 	});
 };
 
+// String literals in an ArkType definition that name `any` or `unknown`.
+const arktypeKeywords = (node: TSESTree.Node): TSESTree.Literal[] => {
+	if (node.type === "Literal")
+		return typeof node.value === "string" && arktypeKeyword(node.value)
+			? [node]
+			: [];
+	if (node.type === "ArrayExpression")
+		return node.elements.flatMap((element) =>
+			element ? arktypeKeywords(element) : []
+		);
+	if (node.type !== "ObjectExpression") return [];
+
+	return node.properties.flatMap((property) =>
+		property.type === "Property" ? arktypeKeywords(property.value) : []
+	);
+};
+
+// `{ additionalProperties: true }` in TypeBox object options.
+const openProperties = (node: TSESTree.Node | undefined) =>
+	node?.type === "ObjectExpression"
+		? node.properties.find(
+				(property) =>
+					property.type === "Property" &&
+					!property.computed &&
+					property.key.type === "Identifier" &&
+					property.key.name === "additionalProperties" &&
+					property.value.type === "Literal" &&
+					property.value.value === true
+			)
+		: undefined;
+
+const typeName = (node: TSESTree.EntityName) =>
+	node.type === "TSQualifiedName" ? node.right.name : undefined;
+
+// `Static<typeof X>` or `z.infer<typeof X>`.
+const isInferredFromSchema = (node: TSESTree.TSTypeReference) => {
+	const { typeName: name } = node;
+	const [argument] = node.typeArguments?.params ?? [];
+	const inferred =
+		(name.type === "Identifier" && name.name === "Static") ||
+		typeName(name) === "Static" ||
+		typeName(name) === "infer";
+
+	return inferred && argument?.type === "TSTypeQuery";
+};
+
+// Same-file type aliases by name, including exported ones.
+const typeAliases = (program: TSESTree.Program) =>
+	new Map(
+		program.body.flatMap((statement) => {
+			const declaration =
+				statement.type === "ExportNamedDeclaration"
+					? statement.declaration
+					: statement;
+
+			return declaration?.type === "TSTypeAliasDeclaration"
+				? [[declaration.id.name, declaration.typeAnnotation] as const]
+				: [];
+		})
+	);
+
 export const noUnsafeSchemaTypes = createRule<Options, MessageIds>({
-	create(context) {
-		const typeboxNamespaces = new Set<string>();
+	create(context, [options]) {
+		const libraries = new Set(options?.libraries ?? LIBRARY_IDS);
+		const allowed = new Set(options?.allowMethods ?? []);
+		const bindings = new Map<string, LibraryBinding>();
+		// Escapes already reported as the value of an unbounded record.
+		const covered = new WeakSet<TSESTree.Node>();
+		const aliases = typeAliases(context.sourceCode.ast);
+
+		/**
+		 * Whether a `$type` argument is derived from a runtime schema:
+		 * `Static<typeof X>`, `z.infer<typeof X>`, `typeof X.$infer`, a
+		 * same-file alias of one of them, or arrays and unions of those.
+		 */
+		const isSchemaType: TypeCheck = (node, seen) => {
+			if (node.type === "TSTypeQuery")
+				return (
+					node.exprName.type === "TSQualifiedName" &&
+					node.exprName.right.name === "$infer"
+				);
+			if (node.type === "TSArrayType")
+				return isSchemaType(node.elementType, seen);
+			if (node.type === "TSTypeOperator" && node.typeAnnotation)
+				return isSchemaType(node.typeAnnotation, seen);
+			if (node.type === "TSUnionType") {
+				const members = node.types.filter(
+					({ type }) =>
+						type !== "TSNullKeyword" &&
+						type !== "TSUndefinedKeyword"
+				);
+
+				return (
+					members.length > 0 &&
+					members.every((member) => isSchemaType(member, seen))
+				);
+			}
+			if (node.type !== "TSTypeReference") return false;
+			if (isInferredFromSchema(node)) return true;
+			const { typeName: name } = node;
+			const [element] = node.typeArguments?.params ?? [];
+			if (
+				name.type === "Identifier" &&
+				ARRAY_TYPES.has(name.name) &&
+				element
+			)
+				return isSchemaType(element, seen);
+			const alias =
+				name.type === "Identifier" && !seen.has(name.name)
+					? aliases.get(name.name)
+					: undefined;
+			if (!alias || name.type !== "Identifier") return false;
+			seen.add(name.name);
+
+			return isSchemaType(alias, seen);
+		};
+
+		const isAllowed = (id: LibraryId, method: string) =>
+			allowed.has(`${id}.${method}`);
+
+		// The library and factory a call such as `z.any()` or `any()` invokes.
+		const factoryCall = (node: TSESTree.Node) => {
+			if (node.type !== "CallExpression") return undefined;
+			const { callee } = node;
+			if (callee.type === "Identifier") {
+				const binding = bindings.get(callee.name);
+
+				return binding?.method ? binding : undefined;
+			}
+			if (
+				callee.type !== "MemberExpression" ||
+				callee.object.type !== "Identifier"
+			)
+				return undefined;
+			const binding = bindings.get(callee.object.name);
+			const method = memberName(callee);
+			const factory: LibraryBinding | undefined =
+				binding && !binding.method && method
+					? { id: binding.id, method }
+					: undefined;
+
+			return factory;
+		};
+
+		// The library whose namespace starts a chain such as `z.object({}).x()`.
+		const chainLibrary = (node: TSESTree.Node): LibraryId | undefined => {
+			if (node.type === "Identifier") {
+				const binding = bindings.get(node.name);
+
+				return binding && !binding.method ? binding.id : undefined;
+			}
+			if (node.type === "CallExpression")
+				return chainLibrary(node.callee);
+
+			return node.type === "MemberExpression"
+				? chainLibrary(node.object)
+				: undefined;
+		};
+
+		const isEscape = (node: TSESTree.Node | undefined) => {
+			const factory = node && factoryCall(node);
+
+			return Boolean(
+				factory?.method &&
+				LIBRARIES[factory.id].escapes.has(factory.method) &&
+				!isAllowed(factory.id, factory.method)
+			);
+		};
+
+		const reportEscape = (
+			node: TSESTree.Node,
+			id: LibraryId,
+			method: string,
+			label = `${method}()`
+		) => {
+			if (isAllowed(id, method) || covered.has(node)) return;
+			context.report({
+				data: {
+					library: LIBRARIES[id].name,
+					method: id === "typebox" ? method : label
+				},
+				messageId:
+					id === "typebox" ? "typeboxEscape" : "validatorEscape",
+				node
+			});
+		};
+
+		const checkArktype = (node: TSESTree.CallExpression) => {
+			node.arguments
+				.flatMap(arktypeKeywords)
+				.forEach((literal) =>
+					reportEscape(
+						literal,
+						"arktype",
+						arktypeKeyword(String(literal.value)) ?? "",
+						JSON.stringify(literal.value)
+					)
+				);
+		};
+
+		// Reports a record or catchall whose value schema is an escape hatch.
+		const checkUnbounded = (
+			node: TSESTree.CallExpression,
+			id: LibraryId,
+			method: string
+		) => {
+			const value = node.arguments[node.arguments.length - 1];
+			if (!isEscape(value) || isAllowed(id, method)) return false;
+			if (value) covered.add(value);
+			context.report({
+				data: { library: LIBRARIES[id].name, method },
+				messageId: "unboundedRecord",
+				node
+			});
+
+			return true;
+		};
+
+		const checkFactory = (
+			node: TSESTree.CallExpression,
+			{ id, method }: LibraryBinding
+		) => {
+			const library = LIBRARIES[id];
+			// ArkType keywords are properties, reported as member expressions.
+			if (!method || id === "arktype") return;
+			if (library.escapes.has(method)) {
+				reportEscape(node, id, method);
+
+				return;
+			}
+			if (method === library.record && checkUnbounded(node, id, method))
+				return;
+			const open =
+				id === "typebox" && method === "Object"
+					? openProperties(node.arguments[1])
+					: undefined;
+			if (!open || isAllowed(id, "additionalProperties")) return;
+			context.report({ messageId: "additionalProperties", node: open });
+		};
+
+		const checkDrizzleType = (node: TSESTree.CallExpression) => {
+			const typeArguments = node.typeArguments?.params ?? [];
+			if (
+				typeArguments.some((typeArgument) =>
+					containsUnboundedType(typeArgument)
+				)
+			) {
+				context.report({ messageId: "drizzleType", node });
+
+				return;
+			}
+			const [typeArgument] = typeArguments;
+			if (
+				!options?.requireSchemaTypes ||
+				!typeArgument ||
+				isSchemaType(typeArgument, new Set())
+			)
+				return;
+			context.report({
+				messageId: "untiedDrizzleType",
+				node: typeArgument
+			});
+		};
 
 		return {
 			CallExpression(node: TSESTree.CallExpression) {
-				if (node.callee.type !== "MemberExpression") return;
-				const method = memberName(node.callee);
-				if (
-					method &&
-					TYPEBOX_ESCAPE_METHODS.has(method) &&
-					node.callee.object.type === "Identifier" &&
-					typeboxNamespaces.has(node.callee.object.name)
-				) {
-					context.report({
-						data: { method },
-						messageId: "typeboxEscape",
-						node
-					});
+				const { callee } = node;
+				const binding =
+					callee.type === "Identifier"
+						? bindings.get(callee.name)
+						: undefined;
+				if (binding?.id === "arktype" && !binding.method) {
+					checkArktype(node);
 
 					return;
 				}
+				const factory = factoryCall(node);
+				if (factory) {
+					checkFactory(node, factory);
 
-				if (method !== "$type") return;
-				const typeArguments = node.typeArguments?.params ?? [];
-				if (
-					!typeArguments.some((typeArgument) =>
-						containsUnboundedType(typeArgument)
-					)
-				) {
 					return;
 				}
-				context.report({ messageId: "drizzleType", node });
+				if (callee.type !== "MemberExpression") return;
+				const method = memberName(callee);
+				if (method === "$type") {
+					checkDrizzleType(node);
+
+					return;
+				}
+				const id = chainLibrary(callee.object);
+				if (!id || !method) return;
+				if (LIBRARIES[id].chainedEscapes.has(method))
+					reportEscape(node, id, method);
+				if (method === LIBRARIES[id].catchall)
+					checkUnbounded(node, id, method);
 			},
 			ImportDeclaration(node: TSESTree.ImportDeclaration) {
+				const source = node.source.value;
+				const id = LIBRARY_IDS.find(
+					(library) =>
+						libraries.has(library) &&
+						LIBRARIES[library].modules.has(source)
+				);
+				if (!id) return;
+				node.specifiers.forEach((specifier) => {
+					const binding = libraryBinding(id, specifier);
+					if (binding) bindings.set(specifier.local.name, binding);
+				});
+			},
+			MemberExpression(node: TSESTree.MemberExpression) {
+				const method = memberName(node);
+				const binding =
+					node.object.type === "Identifier"
+						? bindings.get(node.object.name)
+						: undefined;
 				if (
-					typeof node.source.value !== "string" ||
-					!TYPEBOX_MODULES.has(node.source.value)
-				) {
+					binding?.id !== "arktype" ||
+					binding.method ||
+					!method ||
+					!LIBRARIES.arktype.escapes.has(method)
+				)
 					return;
-				}
-				node.specifiers
-					.map(typeboxNamespaceName)
-					.filter((name): name is string => name !== null)
-					.forEach((name) => typeboxNamespaces.add(name));
+				reportEscape(node, "arktype", method, `type.${method}`);
 			}
 		};
 	},
-	defaultOptions: [],
+	defaultOptions: [
+		{ allowMethods: [], libraries: LIBRARY_IDS, requireSchemaTypes: false }
+	],
 	meta: {
 		docs: {
 			description:
-				"Disallow TypeBox validation escape hatches and unbounded any/unknown Drizzle $type annotations. Use an exact runtime schema and a bounded inferred JSON column type."
+				"Disallow validation escape hatches in TypeBox, Zod, Valibot, and ArkType schemas and unbounded any/unknown Drizzle $type annotations. Use an exact runtime schema and a bounded inferred JSON column type."
 		},
 		messages: {
+			additionalProperties:
+				"TypeBox objects with additionalProperties: true accept undeclared keys without validating them. Declare the extra properties, or model them with a Record of a real value schema.",
 			drizzleType:
 				"Drizzle .$type<any/unknown>() only tells TypeScript to trust unvalidated JSON. Use a bounded domain type derived from the runtime schema, and validate untrusted writes before persistence.",
 			typeboxEscape:
-				"TypeBox {{method}}() disables exact runtime validation. Model the real shape with TypeBox and derive the TypeScript type from that schema."
+				"TypeBox {{method}}() disables exact runtime validation. Model the real shape with TypeBox and derive the TypeScript type from that schema.",
+			unboundedRecord:
+				"This {{library}} {{method}}() accepts entries of any shape because its value schema is an escape hatch. Give it a real value schema.",
+			untiedDrizzleType:
+				"This Drizzle $type is not derived from a runtime schema, so nothing validates the JSON it describes. Use Static<typeof Schema>, z.infer<typeof Schema>, or typeof Schema.$infer, or a type alias of one of them.",
+			validatorEscape:
+				"{{library}} {{method}} disables exact runtime validation. Model the real shape with {{library}} and derive the TypeScript type from that schema."
 		},
-		schema: [],
+		schema: [
+			{
+				additionalProperties: false,
+				properties: {
+					allowMethods: {
+						items: {
+							pattern: "^(arktype|typebox|valibot|zod)\\.",
+							type: "string"
+						},
+						type: "array"
+					},
+					libraries: {
+						items: { enum: LIBRARY_IDS, type: "string" },
+						type: "array"
+					},
+					requireSchemaTypes: { type: "boolean" }
+				},
+				type: "object"
+			}
+		],
 		type: "problem"
 	},
 	name: "no-unsafe-schema-types"
@@ -1,25 +1,39 @@
-import { TSESTree } from "@typescript-eslint/utils";
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
 import { createRule } from "../createRule";
+import { columnDetector } from "../utils/drizzle";
+import { variableFor } from "../utils/elysia";
 
 type Options = [];
-type MessageIds = "preferBuilder" | "rawSql";
-
-const SIMPLE_SQL_BUILDERS: ReadonlyArray<[RegExp, string]> = [
-	[/^\s*\$\{\}\s*=\s*\$\{\}\s*$/u, "eq"],
-	[/^\s*\$\{\}\s*(?:<>|!=)\s*\$\{\}\s*$/u, "ne"],
-	[/^\s*\$\{\}\s*>\s*\$\{\}\s*$/u, "gt"],
-	[/^\s*\$\{\}\s*>=\s*\$\{\}\s*$/u, "gte"],
-	[/^\s*\$\{\}\s*<\s*\$\{\}\s*$/u, "lt"],
-	[/^\s*\$\{\}\s*<=\s*\$\{\}\s*$/u, "lte"],
-	[/^\s*\$\{\}\s+is\s+null\s*$/iu, "isNull"],
-	[/^\s*\$\{\}\s+is\s+not\s+null\s*$/iu, "isNotNull"],
-	[/^\s*\$\{\}\s+like\s+\$\{\}\s*$/iu, "like"],
-	[/^\s*\$\{\}\s+ilike\s+\$\{\}\s*$/iu, "ilike"],
-	[/^\s*\$\{\}\s+in\s*\(\s*\$\{\}\s*\)\s*$/iu, "inArray"],
-	[/^\s*\$\{\}\s+not\s+in\s*\(\s*\$\{\}\s*\)\s*$/iu, "notInArray"],
-	[/^\s*\$\{\}\s+asc\s*$/iu, "asc"],
-	[/^\s*\$\{\}\s+desc\s*$/iu, "desc"]
-];
+type MessageIds = "preferBuilder" | "rawSql" | "suggestBuilder";
+type Token =
+	| { kind: "symbol" | "word"; text: string }
+	| { index: number; kind: "value" };
+// A builder call, or the index of a template value used as an operand.
+type Operand = Builder | number;
+type Builder = { args: Operand[]; name: string };
+type Parsed = { builder: Builder; columns: number[] };
+type Parser = () => Operand | undefined;
+type Renderer = (operand: Operand) => string;
+
+const DRIZZLE_MODULE = "drizzle-orm";
+const COMPARISON_BUILDERS = new Map([
+	["!=", "ne"],
+	["<", "lt"],
+	["<=", "lte"],
+	["<>", "ne"],
+	["=", "eq"],
+	[">", "gt"],
+	[">=", "gte"]
+]);
+// Builders for `<column> [not] <keyword> ...`, as [positive, negated].
+const KEYWORD_BUILDERS = new Map([
+	["between", ["between", "notBetween"]],
+	["ilike", ["ilike", "notIlike"]],
+	["in", ["inArray", "notInArray"]],
+	["like", ["like", "notLike"]]
+]);
+const ORDER_BUILDERS = new Set(["asc", "desc"]);
+const TOKEN_PATTERN = /\s+|(<>|!=|>=|<=|[=<>(),*])|([a-z]+)/giuy;
 
 const memberName = (node: TSESTree.MemberExpression) => {
 	if (node.computed) {
@@ -32,9 +46,6 @@ const memberName = (node: TSESTree.MemberExpression) => {
 	return node.property.type === "Identifier" ? node.property.name : null;
 };
 
-const templateShape = (node: TSESTree.TemplateLiteral) =>
-	node.quasis.map((quasi) => quasi.value.raw).join("${}");
-
 const drizzleSqlLocalName = (specifier: TSESTree.ImportClause) => {
 	if (specifier.type !== "ImportSpecifier") return null;
 	if (specifier.imported.type !== "Identifier") return null;
@@ -42,9 +53,297 @@ const drizzleSqlLocalName = (specifier: TSESTree.ImportClause) => {
 	return specifier.imported.name === "sql" ? specifier.local.name : null;
 };
 
+// SQL keywords, operators, and template values, or undefined for other SQL.
+const tokenize = (quasis: TSESTree.TemplateElement[]) => {
+	const tokens: Token[] = [];
+	const complete = quasis.every(({ value }, index) => {
+		TOKEN_PATTERN.lastIndex = 0;
+		while (TOKEN_PATTERN.lastIndex < value.raw.length) {
+			const match = TOKEN_PATTERN.exec(value.raw);
+			if (!match) return false;
+			const [, symbol, word] = match;
+			if (symbol) tokens.push({ kind: "symbol", text: symbol });
+			if (word) tokens.push({ kind: "word", text: word.toLowerCase() });
+		}
+		if (index < quasis.length - 1) tokens.push({ index, kind: "value" });
+
+		return true;
+	});
+
+	return complete ? tokens : undefined;
+};
+
+/**
+ * Parses a template into Drizzle builder calls: comparisons, null checks,
+ * `like`, `in`, `between`, `exists`, and their `and`/`or`/`not`
+ * combinations, plus a whole `count(...)` or `<column> asc|desc`. `columns`
+ * lists the values that must be columns for the rewrite to type-check.
+ */
+const parseTemplate = (tokens: Token[]) => {
+	const columns: number[] = [];
+	let position = 0;
+
+	const peek = (offset = 0) => tokens[position + offset];
+	const accept = (text: string) => {
+		const token = peek();
+		if (token?.kind === "value" || token?.text !== text) return false;
+		position += 1;
+
+		return true;
+	};
+	const value = () => {
+		const token = peek();
+		if (token?.kind !== "value") return undefined;
+		position += 1;
+
+		return token.index;
+	};
+	const call = (name: string, args: Operand[]) => {
+		const builder: Builder = { args, name };
+
+		return builder;
+	};
+	const column = (index: number) => {
+		columns.push(index);
+
+		return index;
+	};
+
+	const predicate = (left: number) => {
+		const token = peek();
+		const comparison =
+			token?.kind === "symbol"
+				? COMPARISON_BUILDERS.get(token.text)
+				: undefined;
+		if (comparison) {
+			position += 1;
+			const right = value();
+
+			return right === undefined
+				? undefined
+				: call(comparison, [column(left), right]);
+		}
+		if (accept("is")) {
+			const name = accept("not") ? "isNotNull" : "isNull";
+
+			return accept("null") ? call(name, [column(left)]) : undefined;
+		}
+		const negated = accept("not");
+		const keyword = peek();
+		const builders =
+			keyword?.kind === "word"
+				? KEYWORD_BUILDERS.get(keyword.text)
+				: undefined;
+		const name = builders?.[negated ? 1 : 0];
+		if (!keyword || keyword.kind === "value" || !name) return undefined;
+		position += 1;
+		const wrapped = keyword.text === "in" && accept("(");
+		const first = value();
+		const closed = !wrapped || accept(")");
+		if (first === undefined || !closed) return undefined;
+		if (keyword.text !== "between")
+			return call(name, [column(left), first]);
+		const last = accept("and") ? value() : undefined;
+
+		return last === undefined
+			? undefined
+			: call(name, [column(left), first, last]);
+	};
+
+	const subquery = () => {
+		const wrapped = accept("(");
+		const query = value();
+
+		return query !== undefined && (!wrapped || accept(")"))
+			? query
+			: undefined;
+	};
+
+	const primary: Parser = () => {
+		if (accept("exists")) {
+			const query = subquery();
+
+			return query === undefined ? undefined : call("exists", [query]);
+		}
+		if (accept("(")) {
+			const inner = disjunction();
+
+			return accept(")") ? inner : undefined;
+		}
+		const left = value();
+		const next = peek();
+		if (left === undefined) return undefined;
+		if (
+			!next ||
+			next.kind === "value" ||
+			["and", ")", "or"].includes(next.text)
+		)
+			return left;
+
+		return predicate(left);
+	};
+
+	const negation: Parser = () => {
+		if (!accept("not")) return primary();
+		const inner = negation();
+		if (inner === undefined) return undefined;
+		if (typeof inner !== "number" && inner.name === "exists")
+			return call("notExists", inner.args);
+
+		return call("not", [inner]);
+	};
+
+	const combination = (name: string, operand: Parser) => {
+		const operands = [operand()];
+		while (accept(name)) operands.push(operand());
+		if (operands.some((entry) => entry === undefined)) return undefined;
+		const [first] = operands;
+
+		return operands.length === 1
+			? first
+			: call(
+					name,
+					operands.filter((entry) => entry !== undefined)
+				);
+	};
+
+	const conjunction: Parser = () => combination("and", negation);
+	const disjunction: Parser = () => combination("or", conjunction);
+
+	const aggregate = () => {
+		if (!accept("count") || !accept("(")) return undefined;
+		if (accept("*")) return accept(")") ? call("count", []) : undefined;
+		const name = accept("distinct") ? "countDistinct" : "count";
+		const counted = value();
+
+		return counted !== undefined && accept(")")
+			? call(name, [column(counted)])
+			: undefined;
+	};
+
+	const ordering = () => {
+		const [first, second] = [peek(), peek(1)];
+		if (
+			tokens.length !== 2 ||
+			first?.kind !== "value" ||
+			second?.kind !== "word" ||
+			!ORDER_BUILDERS.has(second.text)
+		)
+			return undefined;
+		position = tokens.length;
+
+		return call(second.text, [column(first.index)]);
+	};
+
+	const first = peek();
+	const counts = first?.kind === "word" && first.text === "count";
+	const builder = ordering() ?? (counts ? aggregate() : disjunction());
+	const complete =
+		position === tokens.length &&
+		builder !== undefined &&
+		typeof builder !== "number";
+	const parsed: Parsed | undefined = complete
+		? { builder, columns }
+		: undefined;
+
+	return parsed;
+};
+
 export const preferDrizzleQueryBuilders = createRule<Options, MessageIds>({
 	create(context) {
+		const { sourceCode } = context;
 		const drizzleSqlLocals = new Set<string>();
+		const drizzleImports: TSESTree.ImportDeclaration[] = [];
+		const isColumn = columnDetector(sourceCode);
+
+		// Local names of builders already imported from `drizzle-orm`.
+		const importedBuilders = () =>
+			new Map(
+				drizzleImports
+					.filter(({ importKind }) => importKind !== "type")
+					.flatMap(({ specifiers }) => specifiers)
+					.flatMap((specifier) =>
+						specifier.type === "ImportSpecifier" &&
+						specifier.imported.type === "Identifier" &&
+						specifier.importKind !== "type"
+							? [[specifier.imported.name, specifier.local.name]]
+							: []
+					)
+			);
+
+		/**
+		 * Without type information, a `table.column` operand counts as a
+		 * column when `table` is imported, built by a call such as
+		 * `pgTable(...)`, or unbound; parameters and other locals may hold
+		 * plain values.
+		 */
+		const isTableMember = (operand: TSESTree.Node | undefined) => {
+			if (
+				operand?.type !== "MemberExpression" ||
+				operand.object.type !== "Identifier"
+			)
+				return false;
+			const variable = variableFor(sourceCode, operand.object);
+
+			return (
+				!variable ||
+				variable.defs.length === 0 ||
+				variable.defs.some(
+					({ node, type }) =>
+						type === "ImportBinding" ||
+						(node.type === "VariableDeclarator" &&
+							node.init?.type === "CallExpression")
+				)
+			);
+		};
+
+		const isBound = (node: TSESTree.Node, name: string) => {
+			let scope: TSESLint.Scope.Scope | null = sourceCode.getScope(node);
+			while (scope) {
+				if (scope.set.has(name)) return true;
+				scope = scope.upper;
+			}
+
+			return false;
+		};
+
+		const rewrite = (
+			node: TSESTree.TaggedTemplateExpression,
+			{ builder }: Parsed
+		) => {
+			const imported = importedBuilders();
+			const missing = new Set<string>();
+			const render: Renderer = (operand) => {
+				if (typeof operand === "number")
+					return sourceCode.getText(node.quasi.expressions[operand]);
+				const local = imported.get(operand.name);
+				if (!local) missing.add(operand.name);
+
+				return `${local ?? operand.name}(${operand.args.map(render).join(", ")})`;
+			};
+			const text = render(builder);
+			const target = drizzleImports.find(
+				({ importKind, specifiers }) =>
+					importKind !== "type" &&
+					specifiers.some(({ type }) => type === "ImportSpecifier")
+			);
+			const last = target?.specifiers[target.specifiers.length - 1];
+			if ([...missing].some((name) => isBound(node, name)) || !last)
+				return undefined;
+			const fix: TSESLint.ReportFixFunction = (fixer) => [
+				fixer.replaceText(node, text),
+				...(missing.size > 0
+					? [
+							fixer.insertTextAfter(
+								last,
+								`, ${[...missing].join(", ")}`
+							)
+						]
+					: [])
+			];
+
+			return fix;
+		};
 
 		return {
 			CallExpression(node: TSESTree.CallExpression) {
@@ -59,7 +358,8 @@ export const preferDrizzleQueryBuilders = createRule<Options, MessageIds>({
 				context.report({ messageId: "rawSql", node });
 			},
 			ImportDeclaration(node: TSESTree.ImportDeclaration) {
-				if (node.source.value !== "drizzle-orm") return;
+				if (node.source.value !== DRIZZLE_MODULE) return;
+				drizzleImports.push(node);
 				node.specifiers
 					.map(drizzleSqlLocalName)
 					.filter((name): name is string => name !== null)
@@ -72,15 +372,43 @@ export const preferDrizzleQueryBuilders = createRule<Options, MessageIds>({
 				) {
 					return;
 				}
-				const shape = templateShape(node.quasi);
-				const match = SIMPLE_SQL_BUILDERS.find(([pattern]) =>
-					pattern.test(shape)
+				const tokens = tokenize(node.quasi.quasis);
+				const parsed = tokens && parseTemplate(tokens);
+				if (!parsed) return;
+				const operands = parsed.columns.map(
+					(index) => node.quasi.expressions[index]
+				);
+				const columnsConfirmed = operands.every((operand) =>
+					isColumn
+						? operand !== undefined && isColumn(operand)
+						: isTableMember(operand)
 				);
-				if (!match) return;
+				// Without types, other member operands only get a suggestion.
+				const columnShaped =
+					!isColumn &&
+					operands.every(
+						(operand) => operand?.type === "MemberExpression"
+					);
+				const fix =
+					columnsConfirmed || columnShaped
+						? rewrite(node, parsed)
+						: undefined;
+				const builder = parsed.builder.name;
 				context.report({
-					data: { builder: match[1] },
+					data: { builder },
+					fix: columnsConfirmed ? fix : null,
 					messageId: "preferBuilder",
-					node
+					node,
+					suggest:
+						fix && !columnsConfirmed
+							? [
+									{
+										data: { builder },
+										fix,
+										messageId: "suggestBuilder"
+									}
+								]
+							: []
 				});
 			}
 		};
@@ -89,12 +417,15 @@ export const preferDrizzleQueryBuilders = createRule<Options, MessageIds>({
 	meta: {
 		docs: {
 			description:
-				"Require Drizzle's typed query builders for comparisons, null checks, membership, ordering, and patterns that do not need raw SQL."
+				"Require Drizzle's typed query builders for comparisons, null checks, membership, ranges, existence checks, counts, ordering, and patterns that do not need raw SQL."
 		},
+		fixable: "code",
+		hasSuggestions: true,
 		messages: {
 			preferBuilder:
 				"Use Drizzle's typed {{builder}}(...) query builder instead of an sql template for this expression.",
-			rawSql: "Do not use sql.raw(); it bypasses Drizzle parameterization and typing. Compose identifiers and values with Drizzle's typed APIs."
+			rawSql: "Do not use sql.raw(); it bypasses Drizzle parameterization and typing. Compose identifiers and values with Drizzle's typed APIs.",
+			suggestBuilder: "Rewrite this template with {{builder}}(...)."
 		},
 		schema: [],
 		type: "problem"
@@ -4,7 +4,7 @@ import { createRule } from "../createRule";
 type Options = [];
 type MessageIds = "moveToFile";
 
-export const seperateStyleFiles = createRule<Options, MessageIds>({
+export const separateStyleFiles = createRule<Options, MessageIds>({
 	create(context) {
 		// Only run this rule on .tsx or .jsx files.
 		const { filename } = context;
@@ -77,5 +77,5 @@ export const seperateStyleFiles = createRule<Options, MessageIds>({
 		schema: [],
 		type: "suggestion"
 	},
-	name: "seperate-style-files"
+	name: "separate-style-files"
 });
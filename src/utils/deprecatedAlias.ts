@@ -0,0 +1,32 @@
+import { TSESLint } from "@typescript-eslint/utils";
+
+type NamedRule<
+	MessageIds extends string,
+	Options extends readonly unknown[]
+> = TSESLint.RuleModule<MessageIds, Options> & { name: string };
+
+/**
+ * Keeps a previously published rule name working after a rename. The alias
+ * shares the target's implementation and docs, and its deprecation metadata
+ * tells config tooling which name to migrate to.
+ */
+export const deprecatedAlias = <
+	MessageIds extends string,
+	Options extends readonly unknown[]
+>(
+	name: string,
+	rule: NamedRule<MessageIds, Options>
+) => ({
+	...rule,
+	meta: {
+		...rule.meta,
+		deprecated: {
+			message: `Renamed to \`${rule.name}\`.`,
+			replacedBy: [
+				{ rule: { name: rule.name, url: rule.meta.docs?.url } }
+			]
+		},
+		replacedBy: [rule.name]
+	},
+	name
+});
@@ -0,0 +1,332 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import * as ts from "typescript";
+import { memberName, variableFor } from "./elysia";
+
+type SymbolCheck = (symbol: ts.Symbol, seen: Set<ts.Symbol>) => boolean;
+type TypeCheck = (type: ts.Type) => boolean;
+type QueryChain = { methods: string[]; top: TSESTree.CallExpression };
+type DatabaseCheck = (
+	node: TSESTree.Node,
+	seen: Set<TSESLint.Scope.Variable>
+) => boolean;
+
+const DRIZZLE_MODULE = "drizzle-orm";
+const BUILDER_METHODS = new Set([
+	"$count",
+	"delete",
+	"execute",
+	"insert",
+	"select",
+	"selectDistinct",
+	"selectDistinctOn",
+	"update"
+]);
+const EXECUTE_METHODS = new Set([
+	"all",
+	"catch",
+	"execute",
+	"finally",
+	"get",
+	"run",
+	"then"
+]);
+const RELATIONAL_METHODS = new Set(["findFirst", "findMany"]);
+const DIALECT_TABLES = new Map([
+	["drizzle-orm/mysql-core", "mysqlTable"],
+	["drizzle-orm/pg-core", "pgTable"],
+	["drizzle-orm/sqlite-core", "sqliteTable"]
+]);
+
+const isDrizzleModuleName = (name: string) =>
+	name === DRIZZLE_MODULE || name.startsWith(`${DRIZZLE_MODULE}/`);
+
+const isDrizzleDeclaration = (declaration: ts.Declaration) => {
+	let current: ts.Node | undefined = declaration;
+	while (current) {
+		if (
+			ts.isModuleDeclaration(current) &&
+			isDrizzleModuleName(current.name.text)
+		)
+			return true;
+		current = current.parent;
+	}
+
+	return /[\\/]drizzle-orm[\\/]/u.test(declaration.getSourceFile().fileName);
+};
+
+const heritageTypes = (declaration: ts.Declaration) =>
+	ts.isClassDeclaration(declaration) || ts.isInterfaceDeclaration(declaration)
+		? (declaration.heritageClauses ?? []).flatMap(({ types }) => types)
+		: [];
+
+/**
+ * With type information, builds a check for expressions whose type, or a
+ * class or interface it extends, is declared by `drizzle-orm` under a name
+ * `matches` accepts. Returns undefined when the program has no type
+ * information.
+ */
+const drizzleTypeDetector = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	matches: (name: string) => boolean
+) => {
+	const services = sourceCode.parserServices;
+	const checker = services?.program?.getTypeChecker();
+	const nodeMap = services?.esTreeNodeToTSNodeMap;
+	if (!checker || !nodeMap) return undefined;
+
+	const baseSymbol = (node: ts.ExpressionWithTypeArguments) => {
+		const symbol = checker.getSymbolAtLocation(node.expression);
+
+		return symbol && symbol.flags & ts.SymbolFlags.Alias
+			? checker.getAliasedSymbol(symbol)
+			: symbol;
+	};
+
+	const isDrizzleSymbol: SymbolCheck = (symbol, seen) => {
+		const declarations = symbol.declarations ?? [];
+		if (seen.has(symbol)) return false;
+		seen.add(symbol);
+		if (
+			matches(symbol.getName()) &&
+			declarations.some(isDrizzleDeclaration)
+		)
+			return true;
+
+		return declarations.flatMap(heritageTypes).some((heritage) => {
+			const base = baseSymbol(heritage);
+
+			return base !== undefined && isDrizzleSymbol(base, seen);
+		});
+	};
+
+	const isDrizzleType: TypeCheck = (type) => {
+		const symbol = type.getSymbol();
+		if (symbol && isDrizzleSymbol(symbol, new Set())) return true;
+
+		return type.isIntersection() && type.types.some(isDrizzleType);
+	};
+
+	return (node: TSESTree.Node) => {
+		const tsNode = nodeMap.get(node);
+
+		return Boolean(
+			tsNode && isDrizzleType(checker.getTypeAtLocation(tsNode))
+		);
+	};
+};
+
+// The calls of a column builder chain, outermost first.
+export const builderChain = (node: TSESTree.Node) => {
+	const calls: TSESTree.CallExpression[] = [];
+	let current = node;
+	while (
+		current.type === "CallExpression" &&
+		current.callee.type === "MemberExpression"
+	) {
+		calls.push(current);
+		current = current.callee.object;
+	}
+	if (current.type === "CallExpression") calls.push(current);
+
+	return calls;
+};
+
+/**
+ * With type information, builds a check for expressions typed as a Drizzle
+ * `Column` or one of its dialect subclasses, such as `users.id`. Returns
+ * undefined when the program has no type information.
+ */
+export const columnDetector = (sourceCode: Readonly<TSESLint.SourceCode>) =>
+	drizzleTypeDetector(sourceCode, (name) => name === "Column");
+
+// The object literal of a table's columns, passed directly or returned.
+export const columnsObject = (node: TSESTree.Node | undefined) => {
+	if (node?.type === "ObjectExpression") return node;
+	const returned =
+		node?.type === "ArrowFunctionExpression" ? node.body : undefined;
+
+	return returned?.type === "ObjectExpression" ? returned : undefined;
+};
+
+// The handle and method of a call shaped like a Drizzle query.
+const queryStart = (node: TSESTree.CallExpression) => {
+	const { callee } = node;
+	const method =
+		callee.type === "MemberExpression" ? memberName(callee) : undefined;
+	if (callee.type !== "MemberExpression" || !method) return undefined;
+	const { object: table } = callee;
+	if (BUILDER_METHODS.has(method)) return { handle: table, method };
+
+	return RELATIONAL_METHODS.has(method) &&
+		table.type === "MemberExpression" &&
+		table.object.type === "MemberExpression" &&
+		memberName(table.object) === "query"
+		? { handle: table.object.object, method }
+		: undefined;
+};
+
+/**
+ * Builds a check for Drizzle database handles: bindings initialized with
+ * `drizzle(...)` imported from a `drizzle-orm/<driver>` module, the
+ * transaction a `db.transaction(...)` callback receives, and, with type
+ * information, any value typed as a Drizzle database or transaction.
+ */
+export const databaseDetector = (sourceCode: Readonly<TSESLint.SourceCode>) => {
+	const factories = new Set(
+		sourceCode.ast.body.flatMap((statement) =>
+			statement.type === "ImportDeclaration" &&
+			statement.source.value.startsWith(`${DRIZZLE_MODULE}/`)
+				? statement.specifiers.flatMap((specifier) =>
+						specifier.type === "ImportSpecifier" &&
+						specifier.imported.type === "Identifier" &&
+						specifier.imported.name === "drizzle"
+							? [specifier.local.name]
+							: []
+					)
+				: []
+		)
+	);
+	const hasDatabaseType = drizzleTypeDetector(sourceCode, (name) =>
+		/(?:Database|Transaction)$/u.test(name)
+	);
+
+	const isTransactionParameter = (
+		definition: TSESLint.Scope.Definition,
+		seen: Set<TSESLint.Scope.Variable>
+	) => {
+		const callback = definition.node;
+		const call = callback.parent;
+
+		return (
+			definition.type === "Parameter" &&
+			(callback.type === "ArrowFunctionExpression" ||
+				callback.type === "FunctionExpression") &&
+			callback.params[0] === definition.name &&
+			call?.type === "CallExpression" &&
+			call.callee.type === "MemberExpression" &&
+			memberName(call.callee) === "transaction" &&
+			isDatabase(call.callee.object, seen)
+		);
+	};
+
+	const isBoundDatabase = (
+		variable: TSESLint.Scope.Variable,
+		seen: Set<TSESLint.Scope.Variable>
+	) =>
+		variable.defs.some(
+			(definition) =>
+				isTransactionParameter(definition, seen) ||
+				(definition.type === "Variable" &&
+					definition.node.init !== null &&
+					isDatabase(definition.node.init, seen))
+		);
+
+	const isDatabase: DatabaseCheck = (node, seen) => {
+		if (
+			node.type === "AwaitExpression" ||
+			node.type === "TSAsExpression" ||
+			node.type === "TSNonNullExpression" ||
+			node.type === "TSSatisfiesExpression"
+		)
+			return isDatabase(
+				node.type === "AwaitExpression"
+					? node.argument
+					: node.expression,
+				seen
+			);
+		if (
+			node.type === "CallExpression" &&
+			node.callee.type === "Identifier" &&
+			factories.has(node.callee.name)
+		)
+			return true;
+		if (node.type !== "Identifier") return hasDatabaseType?.(node) ?? false;
+		const variable = variableFor(sourceCode, node);
+		if (variable && seen.has(variable)) return false;
+		if (variable) seen.add(variable);
+
+		return (
+			Boolean(variable && isBoundDatabase(variable, seen)) ||
+			(hasDatabaseType?.(node) ?? false)
+		);
+	};
+
+	return (node: TSESTree.Node) => isDatabase(node, new Set());
+};
+
+// The table factory a dialect module exports, such as `pgTable` for `pg-core`.
+export const dialectTable = (moduleName: string) =>
+	DIALECT_TABLES.get(moduleName);
+
+// Whether a chain from `queryChain` is awaited, returned, or executed.
+export const isExecutedChain = ({ methods, top }: QueryChain) => {
+	const { parent } = top;
+
+	return (
+		methods.some((method) => EXECUTE_METHODS.has(method)) ||
+		parent.type === "AwaitExpression" ||
+		parent.type === "ReturnStatement" ||
+		(parent.type === "ArrowFunctionExpression" && parent.body === top)
+	);
+};
+
+// The static name of an object literal property.
+export const propertyKey = (property: TSESTree.Property) => {
+	if (property.key.type === "Identifier" && !property.computed)
+		return property.key.name;
+
+	return property.key.type === "Literal" &&
+		typeof property.key.value === "string"
+		? property.key.value
+		: undefined;
+};
+
+/**
+ * The calls chained onto a query, such as `set` and `where` in
+ * `db.update(users).set(values).where(condition)`, and the outermost call of
+ * the chain.
+ */
+export const queryChain = (node: TSESTree.CallExpression) => {
+	const methods: string[] = [];
+	let top = node;
+	while (
+		top.parent?.type === "MemberExpression" &&
+		top.parent.object === top &&
+		top.parent.parent.type === "CallExpression" &&
+		top.parent.parent.callee === top.parent
+	) {
+		methods.push(memberName(top.parent) ?? "");
+		top = top.parent.parent;
+	}
+
+	const chain: QueryChain = { methods, top };
+
+	return chain;
+};
+
+/**
+ * The database handle a Drizzle query starts from, such as `db` in
+ * `db.select().from(users)` or in `db.query.users.findMany()`.
+ */
+export const queryHandle = (
+	node: TSESTree.CallExpression,
+	isDatabase: (node: TSESTree.Node) => boolean
+) => {
+	const start = queryStart(node);
+
+	return start && isDatabase(start.handle) ? start.handle : undefined;
+};
+
+/**
+ * The method that starts a Drizzle query on a database handle, such as
+ * `select` in `db.select().from(users)` or `findMany` in
+ * `db.query.users.findMany()`.
+ */
+export const queryMethod = (
+	node: TSESTree.CallExpression,
+	isDatabase: (node: TSESTree.Node) => boolean
+) => {
+	const start = queryStart(node);
+
+	return start && isDatabase(start.handle) ? start.method : undefined;
+};
@@ -0,0 +1,311 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import * as ts from "typescript";
+import {
+	functionReturnExpressions,
+	memberName,
+	resolveFunction,
+	variableFor
+} from "./elysia";
+
+/**
+ * Extra ways to recognize an Eden client: identifier or member names such
+ * as `api`, and modules whose imported bindings are clients.
+ */
+export type EdenClients = {
+	clients?: string[];
+	modules?: string[];
+};
+
+type ClientCheck = (
+	node: TSESTree.Node,
+	seen: Set<TSESLint.Scope.Variable>
+) => boolean;
+type TypeCheck = (type: ts.Type) => boolean;
+
+const EDEN_MODULE = "@elysiajs/eden";
+const EDEN_FACTORIES = new Set(["edenFetch", "edenTreaty", "treaty"]);
+const EDEN_HTTP_METHODS = new Set([
+	"delete",
+	"get",
+	"head",
+	"options",
+	"patch",
+	"post",
+	"put"
+]);
+
+const OPTION_FACTORIES = [
+	"infiniteQueryOptions",
+	"mutationOptions",
+	"queryOptions"
+];
+const USE_FACTORIES = [
+	"useInfiniteQuery",
+	"useMutation",
+	"useQueries",
+	"useQuery"
+];
+const CREATE_FACTORIES = [
+	"createInfiniteQuery",
+	"createMutation",
+	"createQueries",
+	"createQuery"
+];
+
+// The query and mutation factories each TanStack Query adapter exports.
+const QUERY_FACTORIES = new Map([
+	[
+		"@tanstack/angular-query-experimental",
+		new Set([
+			...OPTION_FACTORIES,
+			"injectInfiniteQuery",
+			"injectMutation",
+			"injectQueries",
+			"injectQuery"
+		])
+	],
+	[
+		"@tanstack/react-query",
+		new Set([
+			...OPTION_FACTORIES,
+			...USE_FACTORIES,
+			"useSuspenseInfiniteQuery",
+			"useSuspenseQueries",
+			"useSuspenseQuery"
+		])
+	],
+	[
+		"@tanstack/solid-query",
+		new Set([...OPTION_FACTORIES, ...CREATE_FACTORIES, ...USE_FACTORIES])
+	],
+	[
+		"@tanstack/svelte-query",
+		new Set([...OPTION_FACTORIES, ...CREATE_FACTORIES])
+	],
+	["@tanstack/vue-query", new Set([...OPTION_FACTORIES, ...USE_FACTORIES])]
+]);
+
+const importDefinition = (
+	variable: TSESLint.Scope.Variable | null | undefined
+) =>
+	variable?.defs.find(
+		(
+			definition
+		): definition is TSESLint.Scope.Definitions.ImportBindingDefinition =>
+			definition.type === "ImportBinding"
+	);
+
+const importSource = (
+	definition: TSESLint.Scope.Definitions.ImportBindingDefinition
+) =>
+	definition.parent.type === "ImportDeclaration"
+		? definition.parent.source.value
+		: undefined;
+
+const importedName = (specifier: TSESTree.Node) => {
+	if (specifier.type !== "ImportSpecifier") return undefined;
+
+	return specifier.imported.type === "Identifier"
+		? specifier.imported.name
+		: String(specifier.imported.value);
+};
+
+// `treaty`, `edenTreaty`, or `edenFetch` imported from `@elysiajs/eden`.
+const edenFactoryName = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	callee: TSESTree.Node
+) => {
+	const identifier =
+		callee.type === "MemberExpression" ? callee.object : callee;
+	if (identifier.type !== "Identifier") return undefined;
+	const definition = importDefinition(variableFor(sourceCode, identifier));
+	if (!definition || importSource(definition) !== EDEN_MODULE)
+		return undefined;
+	const name =
+		callee.type === "MemberExpression"
+			? definition.node.type === "ImportNamespaceSpecifier" &&
+				memberName(callee)
+			: importedName(definition.node);
+
+	return name && EDEN_FACTORIES.has(name) ? name : undefined;
+};
+
+const isEdenDeclaration = (declaration: ts.Declaration) => {
+	let current: ts.Node | undefined = declaration;
+	while (current) {
+		if (
+			ts.isModuleDeclaration(current) &&
+			current.name.text === EDEN_MODULE
+		)
+			return true;
+		current = current.parent;
+	}
+
+	return /[\\/]@elysiajs[\\/]eden[\\/]/u.test(
+		declaration.getSourceFile().fileName
+	);
+};
+
+const isTreatyType: TypeCheck = (type) =>
+	[type.aliasSymbol, type.getSymbol()].some((symbol) =>
+		(symbol?.declarations ?? []).some(isEdenDeclaration)
+	) ||
+	(type.isUnionOrIntersection() && type.types.some(isTreatyType));
+
+/**
+ * Builds a check for Eden request calls such as `client.users.get()`. A
+ * client is a binding that traces back to `treaty(...)`, `edenTreaty(...)`,
+ * or `edenFetch(...)`, a configured client name or module, or, with type
+ * information, any value whose type is declared by `@elysiajs/eden`.
+ */
+export const edenRequestDetector = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	{ clients = [], modules = [] }: EdenClients
+) => {
+	const clientNames = new Set(clients);
+	const clientModules = new Set(modules);
+	const services = sourceCode.parserServices;
+	const checker = services?.program?.getTypeChecker();
+
+	const hasTreatyType = (node: TSESTree.Node) => {
+		const tsNode = services?.esTreeNodeToTSNodeMap?.get(node);
+
+		return Boolean(
+			checker && tsNode && isTreatyType(checker.getTypeAtLocation(tsNode))
+		);
+	};
+
+	const isBoundClient = (
+		variable: TSESLint.Scope.Variable,
+		seen: Set<TSESLint.Scope.Variable>
+	) =>
+		variable.defs.some((definition) => {
+			if (definition.type === "ImportBinding")
+				return clientModules.has(importSource(definition) ?? "");
+
+			return (
+				definition.type === "Variable" &&
+				definition.node.init !== null &&
+				isClient(definition.node.init, seen)
+			);
+		});
+
+	const isClient: ClientCheck = (node, seen) => {
+		if (node.type === "MemberExpression")
+			return (
+				clientNames.has(memberName(node) ?? "") ||
+				isClient(node.object, seen)
+			);
+		if (node.type === "CallExpression" || node.type === "NewExpression")
+			return (
+				edenFactoryName(sourceCode, node.callee) !== undefined ||
+				isClient(node.callee, seen)
+			);
+		if (
+			node.type === "ChainExpression" ||
+			node.type === "TSAsExpression" ||
+			node.type === "TSInstantiationExpression" ||
+			node.type === "TSNonNullExpression" ||
+			node.type === "TSSatisfiesExpression" ||
+			node.type === "TSTypeAssertion"
+		)
+			return isClient(node.expression, seen);
+		if (node.type !== "Identifier") return false;
+		if (clientNames.has(node.name)) return true;
+		const variable = variableFor(sourceCode, node);
+		if (variable && seen.has(variable)) return false;
+		if (variable) seen.add(variable);
+
+		return (
+			Boolean(variable && isBoundClient(variable, seen)) ||
+			hasTreatyType(node)
+		);
+	};
+
+	// `edenFetch` clients send a request when called with a path.
+	const isFetchClient = (node: TSESTree.Node) => {
+		if (node.type !== "Identifier") return false;
+		const variable = variableFor(sourceCode, node);
+
+		return Boolean(
+			variable?.defs.some(
+				(definition) =>
+					definition.type === "Variable" &&
+					definition.node.init?.type === "CallExpression" &&
+					edenFactoryName(sourceCode, definition.node.init.callee) ===
+						"edenFetch"
+			)
+		);
+	};
+
+	return (node: TSESTree.CallExpression) => {
+		if (node.callee.type !== "MemberExpression")
+			return isFetchClient(node.callee);
+		const method = memberName(node.callee);
+
+		return Boolean(
+			method &&
+			EDEN_HTTP_METHODS.has(method) &&
+			isClient(node.callee.object, new Set())
+		);
+	};
+};
+
+/**
+ * Builds a check for calls to the query and mutation factories of the React,
+ * Vue, Svelte, Solid, and Angular TanStack Query adapters, following aliased
+ * and namespace imports.
+ */
+export const queryFactoryDetector = (
+	sourceCode: Readonly<TSESLint.SourceCode>
+) => {
+	const factoryNames = new Set<string>();
+	const namespaces = new Map<string, Set<string>>();
+	sourceCode.ast.body.forEach((statement) => {
+		const factories =
+			statement.type === "ImportDeclaration"
+				? QUERY_FACTORIES.get(statement.source.value)
+				: undefined;
+		if (statement.type !== "ImportDeclaration" || !factories) return;
+		statement.specifiers.forEach((specifier) => {
+			const name = importedName(specifier);
+			if (specifier.type === "ImportNamespaceSpecifier")
+				namespaces.set(specifier.local.name, factories);
+			if (name && factories.has(name))
+				factoryNames.add(specifier.local.name);
+		});
+	});
+
+	return ({ callee }: TSESTree.CallExpression) => {
+		if (callee.type === "Identifier") return factoryNames.has(callee.name);
+		if (
+			callee.type !== "MemberExpression" ||
+			callee.object.type !== "Identifier"
+		)
+			return false;
+		const method = memberName(callee);
+
+		return Boolean(
+			method && namespaces.get(callee.object.name)?.has(method)
+		);
+	};
+};
+
+/**
+ * The options object of a query factory call, passed directly or returned
+ * from an options thunk such as `injectQuery(() => ({ ... }))`.
+ */
+export const queryOptionsObject = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	{ arguments: [options] }: TSESTree.CallExpression
+) => {
+	if (options?.type === "ObjectExpression") return options;
+	const thunk = options && resolveFunction(sourceCode, options);
+
+	return thunk
+		? functionReturnExpressions(thunk).find(
+				(expression): expression is TSESTree.ObjectExpression =>
+					expression.type === "ObjectExpression"
+			)
+		: undefined;
+};
@@ -0,0 +1,1254 @@
+import { TSESLint, TSESTree } from "@typescript-eslint/utils";
+import * as ts from "typescript";
+
+export type FunctionNode =
+	| TSESTree.ArrowFunctionExpression
+	| TSESTree.FunctionDeclaration
+	| TSESTree.FunctionExpression;
+
+export type FunctionReference = {
+	functionNode: FunctionNode;
+	target: TSESTree.Node;
+};
+
+export type ElysiaCall = {
+	arguments: TSESTree.CallExpressionArgument[];
+	method: string;
+	node: TSESTree.CallExpression;
+};
+
+type ElysiaScope = {
+	call: ElysiaCall;
+	hook: TSESTree.ObjectExpression | undefined;
+	kind: "group" | "guard";
+	prefix: string | undefined;
+};
+
+export type ElysiaChain = {
+	calls: ElysiaCall[];
+	node: TSESTree.CallExpression;
+	registersHttpPath: boolean;
+	registersRoute: boolean;
+	root: TSESTree.Expression;
+	scopes: ElysiaScope[];
+};
+
+export type ElysiaRoute = {
+	app: ElysiaApp | undefined;
+	call: ElysiaCall;
+	chain: ElysiaChain;
+	fullPath: string | undefined;
+	handler: TSESTree.Expression | undefined;
+	hook: TSESTree.ObjectExpression | undefined;
+	method: string;
+	path: string | undefined;
+	// Whether the chain resolves to `new Elysia()` or an application read
+	// through the TypeScript program, rather than only registering a path.
+	resolved: boolean;
+};
+
+type ElysiaPlugin = {
+	argument: TSESTree.Expression;
+	call: ElysiaCall;
+	chain: ElysiaChain;
+};
+
+export type ElysiaApp = {
+	chains: ElysiaChain[];
+	construction: TSESTree.NewExpression;
+	options: TSESTree.ObjectExpression | undefined;
+	plugins: ElysiaPlugin[];
+	prefix: string | undefined;
+	routes: ElysiaRoute[];
+};
+
+/**
+ * What an expression evaluates to when followed through the TypeScript
+ * program, including across module boundaries. `fileName` is the module that
+ * registered the routes, or that constructed the application when it has
+ * none.
+ */
+export type ElysiaSurface = {
+	app: boolean;
+	fileName: string;
+	httpPath: boolean;
+	prefix: string;
+	registrations: ElysiaRegistration[];
+	routes: boolean;
+};
+
+/**
+ * A method and full path registered by an application read through the
+ * TypeScript program, including its prefix, groups, and installed plugins.
+ */
+type ElysiaRegistration = {
+	method: string;
+	path: string;
+};
+
+export type ElysiaModel = {
+	appOf: (expression: TSESTree.Node) => ElysiaApp | undefined;
+	apps: ElysiaApp[];
+	chainOf: (expression: TSESTree.Node) => ElysiaChain | undefined;
+	chains: ElysiaChain[];
+	isApp: (expression: TSESTree.Node) => boolean;
+	isRouteExpression: (expression: TSESTree.Node) => boolean;
+	plugins: ElysiaPlugin[];
+	routes: ElysiaRoute[];
+	surfaceOf: (expression: TSESTree.Node) => ElysiaSurface | undefined;
+};
+
+type AppResolver<Target extends TSESTree.Node> = (
+	node: Target,
+	seen: Set<TSESTree.Node | TSESLint.Scope.Variable>
+) => ElysiaApp | undefined;
+
+type SurfaceEvaluator = (
+	node: ts.Expression,
+	seen: Set<ts.Node>
+) => ElysiaSurface | undefined;
+
+type Collected = {
+	constructions: TSESTree.NewExpression[];
+	constructors: Set<string>;
+	tops: TSESTree.CallExpression[];
+};
+
+const HTTP_METHODS = new Set([
+	"all",
+	"connect",
+	"delete",
+	"get",
+	"head",
+	"options",
+	"patch",
+	"post",
+	"put",
+	"trace"
+]);
+
+// Every chain method that adds routes to an application, including the
+// scoping `group` and the generic `route`, `ws`, and `mount` registrations.
+const ROUTE_METHODS = new Set([
+	...HTTP_METHODS,
+	"group",
+	"mount",
+	"route",
+	"ws"
+]);
+
+const SCOPE_METHODS = new Set(["group", "guard"]);
+const COMPOSITION_METHODS = new Set(["use", ...SCOPE_METHODS]);
+const ELYSIA_MODULE = "elysia";
+const ELYSIA_CONSTRUCTOR = "Elysia";
+
+export const callMember = (node: TSESTree.CallExpression) =>
+	node.callee.type === "MemberExpression" ? node.callee : undefined;
+
+const callMethod = (node: TSESTree.CallExpression) => {
+	const member = callMember(node);
+
+	return member ? memberName(member) : undefined;
+};
+
+export const memberName = (node: TSESTree.MemberExpression) => {
+	if (node.computed)
+		return node.property.type === "Literal" &&
+			typeof node.property.value === "string"
+			? node.property.value
+			: undefined;
+
+	return node.property.type === "Identifier" ? node.property.name : undefined;
+};
+
+const stringValue = (node: TSESTree.Node | undefined) => {
+	if (node?.type === "Literal" && typeof node.value === "string")
+		return node.value;
+	if (node?.type === "TemplateLiteral" && node.expressions.length === 0)
+		return node.quasis[0]?.value.cooked ?? undefined;
+
+	return undefined;
+};
+
+const objectArgument = (node: TSESTree.CallExpressionArgument | undefined) =>
+	node?.type === "ObjectExpression" ? node : undefined;
+
+const expressionArgument = (
+	node: TSESTree.CallExpressionArgument | undefined
+) => (node && node.type !== "SpreadElement" ? node : undefined);
+
+export const functionAncestor = (node: TSESTree.Node) => {
+	let current = node.parent;
+	while (current && !isFunctionNode(current)) current = current.parent;
+
+	return current;
+};
+
+const isFunctionNode = (
+	node: TSESTree.Node | null | undefined
+): node is FunctionNode =>
+	node?.type === "ArrowFunctionExpression" ||
+	node?.type === "FunctionDeclaration" ||
+	node?.type === "FunctionExpression";
+
+export const variableFor = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	identifier: TSESTree.Identifier
+) =>
+	sourceCode
+		.getScope(identifier)
+		.references.find((reference) => reference.identifier === identifier)
+		?.resolved;
+
+const blockReturnExpressions = (body: TSESTree.BlockStatement) =>
+	body.body.flatMap((statement) =>
+		statement.type === "ReturnStatement" && statement.argument
+			? [statement.argument]
+			: []
+	);
+
+/**
+ * The expressions a binding can evaluate to: a variable's initializer, or
+ * the returned expressions when the binding is a function.
+ */
+export const definitionExpressions = (
+	definition: TSESLint.Scope.Definition
+) => {
+	if (definition.type === "Variable") {
+		const initializer = definition.node.init;
+		if (!initializer) return [];
+		if (isFunctionNode(initializer))
+			return functionReturnExpressions(initializer);
+
+		return [initializer];
+	}
+	if (
+		definition.type === "FunctionName" &&
+		definition.node.type === "FunctionDeclaration"
+	)
+		return functionReturnExpressions(definition.node);
+
+	return [];
+};
+
+export const functionReturnExpressions = (functionNode: FunctionNode) =>
+	functionNode.body.type === "BlockStatement"
+		? blockReturnExpressions(functionNode.body)
+		: [functionNode.body];
+
+const functionFromDefinition = (definition: TSESLint.Scope.Definition) => {
+	if (
+		definition.type === "FunctionName" &&
+		definition.node.type === "FunctionDeclaration"
+	)
+		return definition.node;
+	if (definition.type !== "Variable") return undefined;
+	const initializer = definition.node.init;
+
+	return isFunctionNode(initializer) ? initializer : undefined;
+};
+
+const elysiaConstructorLocal = (node: TSESTree.ImportDeclaration) => {
+	const specifier = node.specifiers.find(
+		(candidate) =>
+			candidate.type === "ImportSpecifier" &&
+			candidate.imported.type === "Identifier" &&
+			candidate.imported.name === ELYSIA_CONSTRUCTOR
+	);
+
+	return specifier?.local.name;
+};
+
+/**
+ * The functions a call made inside another function can reach: its callee
+ * and any callbacks passed as arguments.
+ */
+export const callReferences = (node: TSESTree.CallExpression) => {
+	const owner = functionAncestor(node);
+	if (!owner) return [];
+	const targets = [
+		...(node.callee.type === "Identifier" ? [node.callee] : []),
+		...node.arguments.filter(
+			(argument) => argument.type !== "SpreadElement"
+		)
+	];
+
+	return targets.map((target) => {
+		const reference: FunctionReference = { functionNode: owner, target };
+
+		return reference;
+	});
+};
+
+/**
+ * Every same-file function reachable from `root` through the recorded calls
+ * and callback arguments, including `root` itself.
+ */
+export const reachableFunctions = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	root: FunctionNode,
+	references: FunctionReference[]
+) => {
+	const reached = new Set<FunctionNode>();
+	const pending = [root];
+	while (pending.length > 0) {
+		const current = pending.pop();
+		if (!current || reached.has(current)) continue;
+		reached.add(current);
+		pending.push(
+			...references
+				.filter(({ functionNode }) => functionNode === current)
+				.map(({ target }) => resolveFunction(sourceCode, target))
+				.filter((target) => target !== undefined)
+		);
+	}
+
+	return reached;
+};
+
+/**
+ * Resolves an inline function or a same-file function binding.
+ */
+export const resolveFunction = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	node: TSESTree.Node
+) => {
+	if (
+		node.type === "ArrowFunctionExpression" ||
+		node.type === "FunctionExpression"
+	)
+		return node;
+	if (node.type !== "Identifier") return undefined;
+	const variable = variableFor(sourceCode, node);
+
+	return variable?.defs.map(functionFromDefinition).find(Boolean);
+};
+
+const isNode = (value: unknown): value is TSESTree.Node =>
+	typeof value === "object" &&
+	value !== null &&
+	"type" in value &&
+	typeof value.type === "string";
+
+export const childNodes = (
+	node: TSESTree.Node,
+	visitorKeys: TSESLint.SourceCode.VisitorKeys
+) =>
+	(visitorKeys[node.type] ?? []).flatMap((key) => {
+		const value: unknown = Reflect.get(node, key);
+		if (Array.isArray(value)) return value.filter(isNode);
+
+		return isNode(value) ? [value] : [];
+	});
+
+// The call that continues the chain from `node`, as in `node.method()`.
+const outerChainCall = (node: TSESTree.CallExpression) => {
+	const { parent } = node;
+	if (parent.type !== "MemberExpression" || parent.object !== node)
+		return undefined;
+	const call = parent.parent;
+
+	return call.type === "CallExpression" && call.callee === parent
+		? call
+		: undefined;
+};
+
+const chainTop = (node: TSESTree.CallExpression) => {
+	let current = node;
+	let outer = outerChainCall(current);
+	while (outer) {
+		current = outer;
+		outer = outerChainCall(current);
+	}
+
+	return current;
+};
+
+const chainCalls = (node: TSESTree.CallExpression) => {
+	const calls: ElysiaCall[] = [];
+	let current: TSESTree.Expression = node;
+
+	while (current.type === "CallExpression") {
+		const member = callMember(current);
+		if (!member || member.object.type === "Super") break;
+		const method = memberName(member);
+		if (method)
+			calls.unshift({
+				arguments: current.arguments,
+				method,
+				node: current
+			});
+		current = member.object;
+	}
+
+	return { calls, root: current };
+};
+
+/**
+ * Reads an Elysia-style fluent chain from its outermost call back to the
+ * root receiver, recording whether it registers routes or HTTP paths.
+ */
+const chainAnalysis = (expression: TSESTree.Expression) => {
+	if (expression.type !== "CallExpression")
+		return {
+			calls: [],
+			registersHttpPath: false,
+			registersRoute: false,
+			root: expression
+		};
+	const { calls, root } = chainCalls(expression);
+	const routeCalls = calls.filter(({ method }) => ROUTE_METHODS.has(method));
+
+	return {
+		calls,
+		registersHttpPath: routeCalls.some(({ arguments: [path] }) =>
+			Boolean(stringValue(path)?.startsWith("/"))
+		),
+		registersRoute: routeCalls.length > 0,
+		root
+	};
+};
+
+const scopeOf = (call: ElysiaCall) => {
+	const [first, second] = call.arguments;
+	const scope: ElysiaScope =
+		call.method === "group"
+			? {
+					call,
+					hook: objectArgument(second),
+					kind: "group",
+					prefix: stringValue(first)
+				}
+			: {
+					call,
+					hook: objectArgument(first),
+					kind: "guard",
+					prefix: undefined
+				};
+
+	return scope;
+};
+
+const enclosingScopes = (node: TSESTree.Node) => {
+	const scopes: ElysiaScope[] = [];
+	let current = functionAncestor(node);
+	while (current) {
+		const { parent } = current;
+		const method =
+			parent.type === "CallExpression" ? callMethod(parent) : undefined;
+		const scope =
+			parent.type === "CallExpression" &&
+			method &&
+			SCOPE_METHODS.has(method)
+				? scopeOf({ arguments: parent.arguments, method, node: parent })
+				: undefined;
+		if (scope) scopes.unshift(scope);
+		current = functionAncestor(current);
+	}
+
+	return scopes;
+};
+
+export const joinPaths = (segments: Array<string | undefined>) => {
+	if (segments.some((segment) => segment === undefined)) return undefined;
+	const joined = segments.join("").replace(/\/{2,}/gu, "/");
+
+	return joined.length > 1 ? joined.replace(/\/$/u, "") : joined;
+};
+
+// Where each registration method takes its path, handler, and hook.
+const routeLayout = (call: ElysiaCall) => {
+	const [first, second, third, fourth] = call.arguments;
+	if (HTTP_METHODS.has(call.method))
+		return {
+			handler: second,
+			hook: third,
+			method: call.method,
+			path: first
+		};
+	if (call.method === "route")
+		return {
+			handler: third,
+			hook: fourth,
+			method: stringValue(first)?.toLowerCase() ?? "route",
+			path: second
+		};
+	if (call.method === "ws")
+		return { handler: undefined, hook: second, method: "ws", path: first };
+	if (call.method !== "mount") return undefined;
+
+	return stringValue(first) === undefined
+		? { handler: first, hook: undefined, method: "mount", path: undefined }
+		: { handler: second, hook: undefined, method: "mount", path: first };
+};
+
+const chainRoutes = (
+	chain: ElysiaChain,
+	app: ElysiaApp | undefined,
+	isElysia: boolean
+) =>
+	chain.calls.flatMap((call) => {
+		const layout = routeLayout(call);
+		const path = stringValue(layout?.path);
+		const handler = expressionArgument(layout?.handler);
+		if (!layout || (!isElysia && !path?.startsWith("/"))) return [];
+		if (layout.method === "mount" && !handler) return [];
+		const route: ElysiaRoute = {
+			app,
+			call,
+			chain,
+			fullPath: joinPaths([
+				app?.prefix ?? "",
+				...chain.scopes.map((scope) => scope.prefix ?? ""),
+				path
+			]),
+			handler,
+			hook: objectArgument(layout.hook),
+			method: layout.method,
+			path,
+			resolved: isElysia
+		};
+
+		return [route];
+	});
+
+const pluginArguments = (call: ElysiaCall) =>
+	call.arguments.flatMap((argument) => {
+		if (argument.type === "ArrayExpression")
+			return argument.elements.flatMap((element) =>
+				element && element.type !== "SpreadElement" ? [element] : []
+			);
+
+		return argument.type === "SpreadElement" ? [] : [argument];
+	});
+
+const chainPlugins = (chain: ElysiaChain) =>
+	chain.calls
+		.filter(({ method }) => method === "use")
+		.flatMap((call) =>
+			pluginArguments(call).map((argument) => {
+				const plugin: ElysiaPlugin = { argument, call, chain };
+
+				return plugin;
+			})
+		);
+
+export const hookProperty = (
+	hook: TSESTree.ObjectExpression | undefined,
+	name: string
+) =>
+	hook?.properties.find(
+		(candidate): candidate is TSESTree.Property =>
+			candidate.type === "Property" &&
+			!candidate.computed &&
+			((candidate.key.type === "Identifier" &&
+				candidate.key.name === name) ||
+				stringValue(candidate.key) === name)
+	);
+
+const optionString = (
+	options: TSESTree.ObjectExpression | undefined,
+	name: string
+) => stringValue(hookProperty(options, name)?.value);
+
+const isNestedWithin = (inner: ElysiaChain, outer: ElysiaChain) =>
+	inner.scopes.every((scope) =>
+		outer.scopes.some(({ call }) => call.node === scope.call.node)
+	);
+
+const standaloneGuards = (route: ElysiaRoute) =>
+	(route.app?.chains ?? [route.chain])
+		.filter((chain) => isNestedWithin(chain, route.chain))
+		.flatMap(({ calls }) => calls)
+		.filter(
+			({ arguments: args, method, node }) =>
+				method === "guard" &&
+				args.length === 1 &&
+				node.range[1] < route.call.node.range[1]
+		)
+		.map(({ arguments: [hook] }) => objectArgument(hook));
+
+/**
+ * Typed routes on chains that resolve to an Elysia application. Express,
+ * Hono, and MSW register paths with the same `.get("/path", fn)` shape, so
+ * rules that read the handler's context use this instead of every route.
+ */
+export const isElysiaRoute = (route: ElysiaRoute) =>
+	route.resolved && isTypedRoute(route);
+
+// Calls that register routes, including groups, mounts, and WebSockets.
+export const isRouteCall = ({ method }: ElysiaCall) =>
+	ROUTE_METHODS.has(method);
+
+// Mounted Fetch handlers and WebSocket upgrades are not typed route handlers.
+export const isTypedRoute = ({ method }: ElysiaRoute) =>
+	method !== "mount" && method !== "ws";
+
+/**
+ * Maps every function reachable from a typed route handler to the routes it
+ * serves, following same-file helper calls.
+ */
+export const routeFunctions = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	routes: ElysiaRoute[],
+	references: FunctionReference[]
+) => {
+	const served = new Map<FunctionNode, Set<ElysiaRoute>>();
+	for (const route of routes.filter(isTypedRoute)) {
+		const handler =
+			route.handler && resolveFunction(sourceCode, route.handler);
+		if (!handler) continue;
+		reachableFunctions(sourceCode, handler, references).forEach(
+			(functionNode) => {
+				const reached = served.get(functionNode) ?? new Set();
+				reached.add(route);
+				served.set(functionNode, reached);
+			}
+		);
+	}
+
+	return served;
+};
+
+/**
+ * The hook objects that apply to a route, innermost first: its own hook,
+ * enclosing `group`/`guard` callbacks, then standalone `.guard({...})` calls
+ * registered before it on the same application.
+ */
+export const routeHooks = (route: ElysiaRoute) =>
+	[
+		route.hook,
+		...route.chain.scopes.map(({ hook }) => hook).reverse(),
+		...standaloneGuards(route).reverse()
+	].filter((hook) => hook !== undefined);
+
+const statusProperty = (pattern: TSESTree.ObjectPattern) =>
+	pattern.properties.find(
+		(property): property is TSESTree.Property =>
+			property.type === "Property" &&
+			!property.computed &&
+			property.key.type === "Identifier" &&
+			property.key.name === "status"
+	);
+
+// Would a `status` parameter be shadowed at `use`, or collide with a local?
+const declaresStatus = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	handler: FunctionNode,
+	use: TSESTree.Node
+) => {
+	let scope: TSESLint.Scope.Scope | null = sourceCode.getScope(use);
+	while (scope && scope.block !== handler) {
+		if (scope.set.has("status")) return true;
+		scope = scope.upper;
+	}
+
+	return Boolean(scope?.set.has("status"));
+};
+
+const insertStatusParameter = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	handler: FunctionNode,
+	parameter: TSESTree.Parameter | undefined
+) => {
+	const openParen = sourceCode.getFirstToken(
+		handler,
+		(token) => token.value === "("
+	);
+	if (!parameter)
+		return openParen
+			? (fixer: TSESLint.RuleFixer) =>
+					fixer.insertTextAfter(openParen, "{ status }")
+			: undefined;
+	// A typed pattern would need `status` added to its annotation too.
+	if (parameter.type !== "ObjectPattern" || parameter.typeAnnotation)
+		return undefined;
+	const { properties } = parameter;
+	const rest = properties.find(({ type }) => type === "RestElement");
+	const last = properties[properties.length - 1];
+	if (rest)
+		return (fixer: TSESLint.RuleFixer) =>
+			fixer.insertTextBefore(rest, "status, ");
+
+	return (fixer: TSESLint.RuleFixer) =>
+		last
+			? fixer.insertTextAfter(last, ", status")
+			: fixer.replaceText(parameter, "{ status }");
+};
+
+/**
+ * How a route handler can call Elysia's `status` helper, adding it to the
+ * destructured context when it is missing and the pattern has no type
+ * annotation. Elysia passes a single context, so handlers that take more
+ * parameters get none.
+ */
+export const statusAccess = (
+	sourceCode: Readonly<TSESLint.SourceCode>,
+	handler: FunctionNode,
+	use: TSESTree.Node
+) => {
+	const [parameter, extra] = handler.params;
+	if (extra) return undefined;
+	const existing =
+		parameter?.type === "ObjectPattern"
+			? statusProperty(parameter)
+			: undefined;
+	if (parameter?.type === "Identifier")
+		return { callee: `${parameter.name}.status`, insert: undefined };
+	if (existing)
+		return existing.value.type === "Identifier"
+			? { callee: existing.value.name, insert: undefined }
+			: undefined;
+	const insert = declaresStatus(sourceCode, handler, use)
+		? undefined
+		: insertStatusParameter(sourceCode, handler, parameter);
+
+	return insert ? { callee: "status", insert } : undefined;
+};
+
+const isMemberChainCall = (node: TSESTree.Node) =>
+	node.type === "CallExpression" && callMember(node) !== undefined;
+
+const collectNodes = (sourceCode: Readonly<TSESLint.SourceCode>) => {
+	const collected: Collected = {
+		constructions: [],
+		constructors: new Set(),
+		tops: []
+	};
+	const pending: TSESTree.Node[] = [sourceCode.ast];
+	while (pending.length > 0) {
+		const node = pending.pop();
+		if (!node) break;
+		const local =
+			node.type === "ImportDeclaration" &&
+			node.source.value === ELYSIA_MODULE
+				? elysiaConstructorLocal(node)
+				: undefined;
+		if (local) collected.constructors.add(local);
+		if (node.type === "NewExpression") collected.constructions.push(node);
+		if (
+			node.type === "CallExpression" &&
+			isMemberChainCall(node) &&
+			!outerChainCall(node)
+		)
+			collected.tops.push(node);
+		pending.push(...childNodes(node, sourceCode.visitorKeys).reverse());
+	}
+
+	return collected;
+};
+
+const isRelevantChain = (calls: ElysiaCall[]) =>
+	calls.some(
+		({ method }) =>
+			ROUTE_METHODS.has(method) || COMPOSITION_METHODS.has(method)
+	);
+
+const unwrapExpression = (node: ts.Expression) => {
+	let current = node;
+	while (
+		ts.isAwaitExpression(current) ||
+		ts.isAsExpression(current) ||
+		ts.isNonNullExpression(current) ||
+		ts.isParenthesizedExpression(current) ||
+		ts.isSatisfiesExpression(current)
+	)
+		current = current.expression;
+
+	return current;
+};
+
+const programReturnExpressions = (node: ts.Node) => {
+	const body =
+		ts.isArrowFunction(node) ||
+		ts.isFunctionDeclaration(node) ||
+		ts.isFunctionExpression(node)
+			? node.body
+			: undefined;
+	if (!body) return [];
+	if (!ts.isBlock(body)) return [body];
+
+	return body.statements.flatMap((statement) =>
+		ts.isReturnStatement(statement) && statement.expression
+			? [statement.expression]
+			: []
+	);
+};
+
+// Mirrors `definitionExpressions` for declarations in any program module.
+const programDeclarationExpressions = (declaration: ts.Declaration) => {
+	if (!ts.isVariableDeclaration(declaration))
+		return programReturnExpressions(declaration);
+	const initializer =
+		declaration.initializer && unwrapExpression(declaration.initializer);
+	if (!initializer) return [];
+
+	return ts.isArrowFunction(initializer) ||
+		ts.isFunctionExpression(initializer)
+		? programReturnExpressions(initializer)
+		: [initializer];
+};
+
+const isElysiaImportSpecifier = (declaration: ts.Declaration) => {
+	if (!ts.isImportSpecifier(declaration)) return false;
+	const { moduleSpecifier } = declaration.parent.parent.parent;
+
+	return (
+		(declaration.propertyName ?? declaration.name).text === "Elysia" &&
+		ts.isStringLiteral(moduleSpecifier) &&
+		moduleSpecifier.text === ELYSIA_MODULE
+	);
+};
+
+const programPrefix = (construction: ts.NewExpression) => {
+	const [options] = construction.arguments ?? [];
+	if (!options || !ts.isObjectLiteralExpression(options)) return undefined;
+	const prefix = options.properties.find(
+		(property): property is ts.PropertyAssignment =>
+			ts.isPropertyAssignment(property) &&
+			(ts.isIdentifier(property.name) ||
+				ts.isStringLiteral(property.name)) &&
+			property.name.text === "prefix"
+	);
+
+	return prefix && ts.isStringLiteralLike(prefix.initializer)
+		? prefix.initializer.text
+		: undefined;
+};
+
+const programSurfaceEvaluator = (checker: ts.TypeChecker) => {
+	const declarationsOf = (node: ts.Node) => {
+		const symbol = checker.getSymbolAtLocation(node);
+		const target =
+			symbol && symbol.flags & ts.SymbolFlags.Alias
+				? checker.getAliasedSymbol(symbol)
+				: symbol;
+
+		return target?.declarations ?? [];
+	};
+	const isElysiaConstructor = (node: ts.Expression) =>
+		ts.isIdentifier(node) &&
+		(checker.getSymbolAtLocation(node)?.declarations ?? []).some(
+			isElysiaImportSpecifier
+		);
+
+	// Parameters of `.group()` callbacks stand for the prefixed application.
+	const groupBases = new Map<ts.Declaration, ElysiaSurface>();
+
+	const groupRegistrations = (
+		node: ts.CallExpression,
+		base: ElysiaSurface,
+		seen: Set<ts.Node>
+	) => {
+		const [path] = node.arguments;
+		const callback = node.arguments[node.arguments.length - 1];
+		if (
+			!path ||
+			!ts.isStringLiteralLike(path) ||
+			!callback ||
+			!(ts.isArrowFunction(callback) || ts.isFunctionExpression(callback))
+		)
+			return [];
+		const [parameter] = callback.parameters;
+		const prefix = joinPaths([base.prefix, path.text]) ?? base.prefix;
+		if (parameter)
+			groupBases.set(parameter, { ...base, prefix, registrations: [] });
+
+		return (
+			programReturnExpressions(callback)
+				.map((result) => evaluate(result, seen))
+				.find(Boolean)?.registrations ?? []
+		);
+	};
+
+	const pluginRegistrations = (
+		node: ts.CallExpression,
+		base: ElysiaSurface
+	) =>
+		node.arguments
+			.flatMap((argument) =>
+				ts.isArrayLiteralExpression(argument)
+					? [...argument.elements]
+					: [argument]
+			)
+			.flatMap(
+				(argument) => evaluate(argument, new Set())?.registrations ?? []
+			)
+			.map(({ method, path }) => ({
+				method,
+				path: joinPaths([base.prefix, path]) ?? path
+			}));
+
+	const chainRegistrations = (
+		node: ts.CallExpression,
+		method: string,
+		base: ElysiaSurface,
+		seen: Set<ts.Node>
+	) => {
+		const [first, second] = node.arguments;
+		if (method === "group") return groupRegistrations(node, base, seen);
+		if (method === "use") return pluginRegistrations(node, base);
+		const [verb, path] =
+			method === "route" ? [first, second] : [undefined, first];
+		const routeMethod =
+			verb && ts.isStringLiteralLike(verb)
+				? verb.text.toLowerCase()
+				: method;
+		if (
+			!path ||
+			!ts.isStringLiteralLike(path) ||
+			(method === "route" && routeMethod === method) ||
+			!HTTP_METHODS.has(routeMethod)
+		)
+			return [];
+		const fullPath = joinPaths([base.prefix, path.text]);
+
+		return fullPath ? [{ method: routeMethod, path: fullPath }] : [];
+	};
+
+	const evaluateChainCall = (
+		node: ts.CallExpression,
+		callee: ts.PropertyAccessExpression,
+		seen: Set<ts.Node>
+	) => {
+		const base = evaluate(callee.expression, seen);
+		const method = callee.name.text;
+		const registrations = base
+			? [
+					...base.registrations,
+					...chainRegistrations(node, method, base, seen)
+				]
+			: [];
+		if (!ROUTE_METHODS.has(method))
+			return base && { ...base, registrations };
+		const [path] = node.arguments;
+		const surface: ElysiaSurface = {
+			app: base?.app ?? false,
+			fileName: node.getSourceFile().fileName,
+			httpPath:
+				(base?.httpPath ?? false) ||
+				(path !== undefined &&
+					ts.isStringLiteralLike(path) &&
+					path.text.startsWith("/")),
+			prefix: base?.prefix ?? "",
+			registrations,
+			routes: true
+		};
+
+		return surface;
+	};
+
+	const evaluate: SurfaceEvaluator = (node, seen) => {
+		const expression = unwrapExpression(node);
+		if (ts.isNewExpression(expression)) {
+			const surface: ElysiaSurface = {
+				app: true,
+				fileName: expression.getSourceFile().fileName,
+				httpPath: false,
+				prefix: programPrefix(expression) ?? "",
+				registrations: [],
+				routes: false
+			};
+
+			return isElysiaConstructor(expression.expression)
+				? surface
+				: undefined;
+		}
+		if (
+			ts.isCallExpression(expression) &&
+			ts.isPropertyAccessExpression(expression.expression)
+		)
+			return evaluateChainCall(expression, expression.expression, seen);
+		const binding = ts.isCallExpression(expression)
+			? expression.expression
+			: expression;
+		if (!ts.isIdentifier(binding)) return undefined;
+		const declarations = declarationsOf(binding);
+		const groupBase = declarations
+			.map((declaration) => groupBases.get(declaration))
+			.find(Boolean);
+		if (groupBase) return groupBase;
+
+		return declarations
+			.filter((declaration) => !seen.has(declaration))
+			.flatMap((declaration) => {
+				seen.add(declaration);
+
+				return programDeclarationExpressions(declaration);
+			})
+			.map((result) => evaluate(result, seen))
+			.find(Boolean);
+	};
+
+	return evaluate;
+};
+
+// Cross-module resolution needs a TypeScript program; without one the model
+// only follows same-file bindings.
+const programSurfaces = (sourceCode: Readonly<TSESLint.SourceCode>) => {
+	const { parserServices } = sourceCode;
+	const program = parserServices?.program;
+	const nodeMap = parserServices?.esTreeNodeToTSNodeMap;
+	if (!program || !nodeMap) return undefined;
+	const evaluate = programSurfaceEvaluator(program.getTypeChecker());
+
+	return (expression: TSESTree.Node) => {
+		const node = nodeMap.get(expression);
+
+		return ts.isExpression(node) ? evaluate(node, new Set()) : undefined;
+	};
+};
+
+const appNames = new WeakMap<ts.Program, Map<string, string[]>>();
+
+const collectAppNames = (program: ts.Program) => {
+	const checker = program.getTypeChecker();
+	const names = new Map<string, string[]>();
+	const record = (node: ts.NewExpression) => {
+		const [options] = node.arguments ?? [];
+		const isElysia = (
+			checker.getSymbolAtLocation(node.expression)?.declarations ?? []
+		).some(isElysiaImportSpecifier);
+		if (!isElysia || !options || !ts.isObjectLiteralExpression(options))
+			return;
+		const properties = new Map(
+			options.properties.flatMap((property) =>
+				ts.isPropertyAssignment(property) &&
+				(ts.isIdentifier(property.name) ||
+					ts.isStringLiteral(property.name))
+					? [[property.name.text, property.initializer] as const]
+					: []
+			)
+		);
+		const name = properties.get("name");
+		if (properties.has("seed") || !name || !ts.isStringLiteralLike(name))
+			return;
+		const { fileName } = node.getSourceFile();
+		names.set(name.text, [...(names.get(name.text) ?? []), fileName]);
+	};
+	const visit = (node: ts.Node) => {
+		if (ts.isNewExpression(node)) record(node);
+		ts.forEachChild(node, visit);
+	};
+	program
+		.getSourceFiles()
+		.filter(
+			(file) =>
+				!file.isDeclarationFile &&
+				!program.isSourceFileFromExternalLibrary(file)
+		)
+		.forEach(visit);
+
+	return names;
+};
+
+/**
+ * The files of the TypeScript program that construct an unseeded
+ * `new Elysia({ name })`, keyed by name, or `undefined` without a program.
+ */
+export const programAppNames = (sourceCode: Readonly<TSESLint.SourceCode>) => {
+	const program = sourceCode.parserServices?.program;
+	if (!program) return undefined;
+	const cached = appNames.get(program) ?? collectAppNames(program);
+	appNames.set(program, cached);
+
+	return cached;
+};
+
+const buildModel = (sourceCode: Readonly<TSESLint.SourceCode>) => {
+	const { constructions, constructors, tops } = collectNodes(sourceCode);
+	const chainsByNode = new Map<TSESTree.Node, ElysiaChain>();
+	const appsByConstruction = new Map<TSESTree.Node, ElysiaApp>();
+
+	// `new Elysia()` with `Elysia` imported from "elysia", or left unbound as
+	// in snippets that omit the import.
+	const isConstructor = (callee: TSESTree.Identifier) =>
+		constructors.has(callee.name) ||
+		(callee.name === ELYSIA_CONSTRUCTOR &&
+			(variableFor(sourceCode, callee)?.defs.length ?? 0) === 0);
+
+	for (const construction of constructions) {
+		if (
+			construction.callee.type !== "Identifier" ||
+			!isConstructor(construction.callee)
+		)
+			continue;
+		const options = objectArgument(construction.arguments[0]);
+		appsByConstruction.set(construction, {
+			chains: [],
+			construction,
+			options,
+			plugins: [],
+			prefix: optionString(options, "prefix"),
+			routes: []
+		});
+	}
+
+	const isConstruction = (node: TSESTree.Node) =>
+		appsByConstruction.has(node);
+	const chains = tops.flatMap((node) => {
+		const analysis = chainAnalysis(node);
+		if (!isRelevantChain(analysis.calls) && !isConstruction(analysis.root))
+			return [];
+		const chain: ElysiaChain = {
+			...analysis,
+			node,
+			scopes: enclosingScopes(node)
+		};
+		chainsByNode.set(node, chain);
+
+		return [chain];
+	});
+
+	const scopeChainOf = (scope: ElysiaScope) =>
+		chainsByNode.get(chainTop(scope.call.node));
+
+	const resolveApp: AppResolver<TSESTree.Node> = (node, seen) => {
+		if (seen.has(node)) return undefined;
+		seen.add(node);
+		const construction = appsByConstruction.get(node);
+		if (construction) return construction;
+		const chain = chainsByNode.get(node);
+		const root =
+			chain?.root ??
+			(node.type === "CallExpression" ? chainAnalysis(node).root : node);
+		if (root !== node) return resolveApp(root, seen);
+		if (root.type === "CallExpression" && root.callee.type === "Identifier")
+			return resolveBinding(root.callee, seen);
+
+		return root.type === "Identifier"
+			? resolveBinding(root, seen)
+			: undefined;
+	};
+
+	const resolveBinding: AppResolver<TSESTree.Identifier> = (
+		identifier,
+		seen
+	) => {
+		const variable = variableFor(sourceCode, identifier);
+		if (!variable || seen.has(variable)) return undefined;
+		seen.add(variable);
+		const callbackScope = variable.defs
+			.filter((definition) => definition.type === "Parameter")
+			.map((definition) => scopeForCallback(definition.node))
+			.find(Boolean);
+		if (callbackScope) {
+			const scopeChain = scopeChainOf(callbackScope);
+
+			return scopeChain ? resolveApp(scopeChain.node, seen) : undefined;
+		}
+
+		return variable.defs
+			.flatMap(definitionExpressions)
+			.map((expression) => resolveApp(expression, seen))
+			.find(Boolean);
+	};
+
+	const scopeForCallback = (node: TSESTree.Node) => {
+		if (!isFunctionNode(node)) return undefined;
+		const { parent } = node;
+		if (parent?.type !== "CallExpression") return undefined;
+		const method = callMethod(parent);
+		if (!method || !SCOPE_METHODS.has(method)) return undefined;
+
+		return scopeOf({ arguments: parent.arguments, method, node: parent });
+	};
+
+	// A chain on a parameter annotated as `Elysia`, as in
+	// `(app: Elysia) => app.get(...)`.
+	const isTypedParameter = (expression: TSESTree.Node) => {
+		const root =
+			chainsByNode.get(expression)?.root ??
+			(expression.type === "CallExpression"
+				? chainAnalysis(expression).root
+				: expression);
+		const variable =
+			root.type === "Identifier"
+				? variableFor(sourceCode, root)
+				: undefined;
+
+		return Boolean(
+			variable?.defs.some(({ name, type }) => {
+				const annotation =
+					type === "Parameter" && name.type === "Identifier"
+						? name.typeAnnotation?.typeAnnotation
+						: undefined;
+
+				return (
+					annotation?.type === "TSTypeReference" &&
+					annotation.typeName.type === "Identifier" &&
+					isConstructor(annotation.typeName)
+				);
+			})
+		);
+	};
+
+	const appOf = (expression: TSESTree.Node) =>
+		resolveApp(expression, new Set());
+	const surfaceOf = programSurfaces(sourceCode) ?? (() => undefined);
+	const isApp = (expression: TSESTree.Node) =>
+		appOf(expression) !== undefined ||
+		Boolean(surfaceOf(expression)?.app) ||
+		isTypedParameter(expression);
+
+	const routes: ElysiaRoute[] = [];
+	const plugins: ElysiaPlugin[] = [];
+	for (const chain of chains) {
+		const app = appOf(chain.node);
+		const isElysia = isApp(chain.node);
+		const registered = chainRoutes(chain, app, isElysia);
+		const installed = isElysia ? chainPlugins(chain) : [];
+		routes.push(...registered);
+		plugins.push(...installed);
+		if (!app) continue;
+		app.chains.push(chain);
+		app.routes.push(...registered);
+		app.plugins.push(...installed);
+	}
+
+	const chainOf = (expression: TSESTree.Node) => chainsByNode.get(expression);
+	const isRouteExpression = (expression: TSESTree.Node) => {
+		if (expression.type !== "CallExpression") return false;
+		const analysis =
+			chainsByNode.get(expression) ?? chainAnalysis(expression);
+
+		return (
+			analysis.registersRoute &&
+			(analysis.registersHttpPath || isApp(expression))
+		);
+	};
+
+	const model: ElysiaModel = {
+		appOf,
+		apps: [...appsByConstruction.values()],
+		chainOf,
+		chains,
+		isApp,
+		isRouteExpression,
+		plugins,
+		routes,
+		surfaceOf
+	};
+
+	return model;
+};
+
+const models = new WeakMap<object, ElysiaModel>();
+
+/**
+ * Builds, once per linted file, the Elysia applications, their installed
+ * plugins, and their routes with group and guard nesting. Routes on chains
+ * that cannot be traced to `new Elysia()` still count when they register an
+ * absolute HTTP path, so route detection never depends on naming; their
+ * `resolved` flag is false. With a
+ * TypeScript program, bindings imported from other modules are followed to
+ * their declarations as well.
+ */
+export const elysiaModel = (sourceCode: Readonly<TSESLint.SourceCode>) => {
+	const cached = models.get(sourceCode.ast);
+	if (cached) return cached;
+	const model = buildModel(sourceCode);
+	models.set(sourceCode.ast, model);
+
+	return model;
+};
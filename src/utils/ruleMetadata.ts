@@ -0,0 +1,196 @@
+import * as ts from "typescript";
+
+type RuleMeta = {
+	deprecated?: unknown;
+	docs?: { description?: string; url?: string };
+	fixable?: string;
+	hasSuggestions?: boolean;
+	messages?: Record<string, string>;
+	replacedBy?: readonly string[];
+	schema?: unknown;
+};
+
+export type RuleMetadataSubject = {
+	key: string;
+	rule: {
+		defaultOptions?: readonly unknown[];
+		meta?: RuleMeta;
+		name?: string;
+	};
+	source: string;
+};
+
+type ReportDescriptor = {
+	dataKeys: Set<string> | null;
+	emitsFix: boolean;
+	emitsSuggestions: boolean;
+	messageIds: string[];
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}\s]+)\s*\}\}/gu;
+
+const propertyNameText = (name: ts.PropertyName) =>
+	ts.isIdentifier(name) || ts.isStringLiteral(name) ? name.text : null;
+
+const messageIdCandidates = (node: ts.Expression): string[] => {
+	if (ts.isStringLiteralLike(node)) return [node.text];
+	if (ts.isParenthesizedExpression(node))
+		return messageIdCandidates(node.expression);
+	if (ts.isConditionalExpression(node))
+		return [
+			...messageIdCandidates(node.whenTrue),
+			...messageIdCandidates(node.whenFalse)
+		];
+
+	return [];
+};
+
+const objectProperties = (node: ts.ObjectLiteralExpression) => {
+	const properties = new Map<string, ts.ObjectLiteralElementLike>();
+	for (const property of node.properties) {
+		const name =
+			ts.isPropertyAssignment(property) ||
+			ts.isShorthandPropertyAssignment(property) ||
+			ts.isMethodDeclaration(property)
+				? propertyNameText(property.name)
+				: null;
+		if (name !== null) properties.set(name, property);
+	}
+
+	return properties;
+};
+
+const isReportCall = (node: ts.Node): node is ts.CallExpression =>
+	ts.isCallExpression(node) &&
+	ts.isPropertyAccessExpression(node.expression) &&
+	node.expression.name.text === "report";
+
+const dataKeysOf = (property: ts.ObjectLiteralElementLike | undefined) => {
+	if (!property) return new Set<string>();
+	if (
+		!ts.isPropertyAssignment(property) ||
+		!ts.isObjectLiteralExpression(property.initializer)
+	)
+		return null;
+	const keys = [...objectProperties(property.initializer).keys()];
+	const hasSpread = property.initializer.properties.some(
+		ts.isSpreadAssignment
+	);
+
+	return hasSpread ? null : new Set(keys);
+};
+
+const reportDescriptor = (node: ts.CallExpression) => {
+	const [argument] = node.arguments;
+	if (!argument || !ts.isObjectLiteralExpression(argument)) return null;
+	const properties = objectProperties(argument);
+	const messageId = properties.get("messageId");
+	const descriptor: ReportDescriptor = {
+		dataKeys: dataKeysOf(properties.get("data")),
+		emitsFix: properties.has("fix"),
+		emitsSuggestions: properties.has("suggest"),
+		messageIds:
+			messageId && ts.isPropertyAssignment(messageId)
+				? messageIdCandidates(messageId.initializer)
+				: []
+	};
+
+	return descriptor;
+};
+
+const collectReports = (source: string) => {
+	const sourceFile = ts.createSourceFile(
+		"rule.ts",
+		source,
+		ts.ScriptTarget.Latest,
+		true
+	);
+	const reports: ReportDescriptor[] = [];
+	const visit = (node: ts.Node) => {
+		const descriptor = isReportCall(node) ? reportDescriptor(node) : null;
+		if (descriptor) reports.push(descriptor);
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+
+	return reports;
+};
+
+const placeholdersOf = (message: string) =>
+	new Set([...message.matchAll(PLACEHOLDER_PATTERN)].map(([, name]) => name));
+
+const placeholderIssues = (
+	messages: Record<string, string>,
+	{ dataKeys, messageIds }: ReportDescriptor
+) => {
+	if (dataKeys === null) return [];
+
+	return messageIds.flatMap((messageId) => {
+		const message = messages[messageId];
+		if (message === undefined)
+			return [`reports unknown messageId "${messageId}"`];
+		const placeholders = placeholdersOf(message);
+		const missing = [...placeholders].filter(
+			(name) => name !== undefined && !dataKeys.has(name)
+		);
+		const unused =
+			messageIds.length === 1
+				? [...dataKeys].filter((name) => !placeholders.has(name))
+				: [];
+
+		return [
+			...missing.map(
+				(name) =>
+					`message "${messageId}" uses {{${name}}} but the report passes no "${name}" data`
+			),
+			...unused.map(
+				(name) =>
+					`report data "${name}" is not a placeholder in message "${messageId}"`
+			)
+		];
+	});
+};
+
+/**
+ * Checks a `createRule` module's metadata against its registry key and the
+ * reports its source emits. Returns one readable issue per violation.
+ */
+export const validateRuleMetadata = ({
+	key,
+	rule,
+	source
+}: RuleMetadataSubject) => {
+	const { defaultOptions = [], meta = {}, name } = rule;
+	const reports = collectReports(source);
+	const issues: string[] = [];
+
+	if (name !== key)
+		issues.push(`registry key "${key}" does not match rule name "${name}"`);
+	if (meta.deprecated && !meta.replacedBy?.length)
+		issues.push("meta.deprecated is set but meta.replacedBy is empty");
+	if (!meta.docs?.description?.trim())
+		issues.push("meta.docs.description is missing");
+	if (
+		defaultOptions.length > 0 &&
+		(!Array.isArray(meta.schema) || meta.schema.length === 0)
+	)
+		issues.push("defaultOptions are set but meta.schema is empty");
+	if (reports.some(({ emitsFix }) => emitsFix) && !meta.fixable)
+		issues.push("reports emit a fix but meta.fixable is not set");
+	if (
+		reports.some(({ emitsSuggestions }) => emitsSuggestions) &&
+		!meta.hasSuggestions
+	)
+		issues.push(
+			"reports emit suggestions but meta.hasSuggestions is not set"
+		);
+
+	const messages = meta.messages ?? {};
+	issues.push(
+		...new Set(
+			reports.flatMap((report) => placeholderIssues(messages, report))
+		)
+	);
+
+	return issues;
+};
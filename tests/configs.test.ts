@@ -0,0 +1,123 @@
+import { describe, expect, test } from "bun:test";
+import { type ESLint, type Linter, Linter as ESLintLinter } from "eslint";
+import vueParser from "vue-eslint-parser";
+import plugin, { configs } from "../src";
+
+// The plugin uses @typescript-eslint's compatible config types; ESLint 10's types are stricter.
+// eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+const eslintConfigs = configs as unknown as Record<string, Linter.Config[]>;
+// eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+const eslintPlugin = plugin as unknown as ESLint.Plugin;
+
+// Rules whose right options depend on the project, so no preset enables them.
+const OPT_IN_RULES = new Set(["drizzle-column-casing"]);
+
+const presetRuleIds = (presets: Linter.Config[][]) =>
+	new Set(
+		presets.flatMap((preset) =>
+			preset.flatMap((config) => Object.keys(config.rules ?? {}))
+		)
+	);
+
+describe("flat-config presets", () => {
+	test("every registered rule belongs to at least one preset", () => {
+		const covered = presetRuleIds(Object.values(eslintConfigs));
+		const uncovered = Object.entries(plugin.rules ?? {})
+			.filter(
+				([, rule]) => typeof rule !== "object" || !rule.meta?.deprecated
+			)
+			.filter(
+				([name]) =>
+					!OPT_IN_RULES.has(name) && !covered.has(`absolute/${name}`)
+			);
+
+		expect(uncovered).toEqual([]);
+	});
+
+	test("no preset enables an opt-in rule", () => {
+		const covered = presetRuleIds(Object.values(eslintConfigs));
+
+		expect(
+			[...OPT_IN_RULES].filter((name) => covered.has(`absolute/${name}`))
+		).toEqual([]);
+	});
+
+	test("presets only reference registered rules", () => {
+		const registered = new Set(
+			Object.keys(plugin.rules).map((name) => `absolute/${name}`)
+		);
+		const unknown = [...presetRuleIds(Object.values(eslintConfigs))].filter(
+			(ruleId) => !registered.has(ruleId)
+		);
+
+		expect(unknown).toEqual([]);
+	});
+
+	test("presets register the exported plugin object", () => {
+		for (const preset of Object.values(eslintConfigs))
+			for (const config of preset)
+				expect(config.plugins?.absolute).toBe(eslintPlugin);
+		expect(plugin.configs).toBe(configs);
+	});
+
+	test("recommended lints markup through the template-source processor", () => {
+		const linter = new ESLintLinter({ configType: "flat" });
+		const messages = linter.verify(
+			`<button title="Send"><span class="material-icons">send</span></button>`,
+			eslintConfigs.recommended ?? [],
+			{ filename: "src/page.html" }
+		);
+
+		expect(messages.map(({ ruleId }) => ruleId)).toEqual([
+			"absolute/icon-button-has-accessible-name",
+			"absolute/button-icon-is-hidden"
+		]);
+	});
+
+	test("recommended composes with the vue preset on .vue files", () => {
+		const linter = new ESLintLinter({ configType: "flat" });
+		const messages = linter.verify(
+			`<template><button :class="{ active: selected === option }">All</button></template>`,
+			[
+				...(eslintConfigs.recommended ?? []),
+				...(eslintConfigs.vue ?? []),
+				{ files: ["**/*.vue"], languageOptions: { parser: vueParser } }
+			],
+			{ filename: "src/Filters.vue" }
+		);
+
+		expect(messages.map(({ ruleId }) => ruleId)).toEqual([
+			"absolute/active-button-has-aria-state"
+		]);
+	});
+
+	test("angular only runs template rules on processed templates", () => {
+		const linter = new ESLintLinter({ configType: "flat" });
+		const markup = `const markup = '<button title="Send"><span class="material-icons">send</span></button>';`;
+		const scriptMessages = linter.verify(
+			markup,
+			eslintConfigs.angular ?? [],
+			{ filename: "src/app.component.ts" }
+		);
+		const templateMessages = linter.verify(
+			`<button title="Send"><span class="material-icons">send</span></button>`,
+			eslintConfigs.angular ?? [],
+			{ filename: "src/app.component.html" }
+		);
+
+		expect(scriptMessages).toEqual([]);
+		expect(templateMessages.map(({ ruleId }) => ruleId)).toEqual([
+			"absolute/icon-button-has-accessible-name",
+			"absolute/button-icon-is-hidden"
+		]);
+	});
+
+	test("strict extends recommended", () => {
+		const recommended = presetRuleIds([eslintConfigs.recommended ?? []]);
+		const strict = presetRuleIds([eslintConfigs.strict ?? []]);
+
+		expect([...recommended].every((ruleId) => strict.has(ruleId))).toBe(
+			true
+		);
+	});
+});
@@ -0,0 +1,31 @@
+import { describe, expect, test } from "bun:test";
+import plugin from "../src";
+import {
+	findDocsDrift,
+	findMissingExamples,
+	renderRuleDocs
+} from "../scripts/docs";
+
+describe("generated rule docs", () => {
+	test("docs/ matches rule metadata and tests", async () => {
+		expect(await findDocsDrift(await renderRuleDocs())).toEqual([]);
+	});
+
+	test("every rule documents valid and invalid examples", async () => {
+		expect(await findMissingExamples()).toEqual([]);
+	});
+
+	test("every page is named after its rule's docs URL", async () => {
+		const pages = [...(await renderRuleDocs()).keys()];
+		const urls = Object.values(plugin.rules)
+			.filter((rule) => !rule.meta.deprecated)
+			.map((rule) => rule.meta.docs?.url ?? "");
+
+		expect(
+			pages.map(
+				(page) =>
+					`https://absolutejs.com/documentation/${page.replace(/\.md$/u, "")}`
+			)
+		).toEqual(urls);
+	});
+});
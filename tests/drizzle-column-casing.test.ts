@@ -0,0 +1,114 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { drizzleColumnCasing } from "../src/rules/drizzle-column-casing";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+ruleTester.run("drizzle-column-casing", drizzleColumnCasing, {
+	invalid: [
+		{
+			code: `import { pgTable, timestamp } from "drizzle-orm/pg-core";
+export const users = pgTable("users", { createdAt: timestamp("createdAt") });`,
+			errors: [
+				{
+					data: {
+						expected: "created_at",
+						key: "createdAt",
+						name: "createdAt"
+					},
+					messageId: "columnName"
+				}
+			],
+			output: `import { pgTable, timestamp } from "drizzle-orm/pg-core";
+export const users = pgTable("users", { createdAt: timestamp("created_at") });`
+		},
+		{
+			code: `import { mysqlTable, varchar } from "drizzle-orm/mysql-core";
+export const users = mysqlTable("users", (t) => ({ firstName: t.varchar('first_name', { length: 80 }).notNull() }));`,
+			errors: [
+				{
+					data: {
+						expected: "firstName",
+						key: "firstName",
+						name: "first_name"
+					},
+					messageId: "columnName"
+				}
+			],
+			name: "checks callback columns and keeps the quote style",
+			options: [{ casing: "camelCase" }],
+			output: `import { mysqlTable, varchar } from "drizzle-orm/mysql-core";
+export const users = mysqlTable("users", (t) => ({ firstName: t.varchar('firstName', { length: 80 }).notNull() }));`
+		},
+		{
+			code: `import { integer, sqliteTable } from "drizzle-orm/sqlite-core";
+export const users = sqliteTable("users", { userID: integer(), lastLoginAt: integer({ mode: "timestamp" }) });`,
+			errors: [
+				{
+					data: { expected: "user_id", key: "userID" },
+					messageId: "missingName",
+					suggestions: [
+						{
+							data: { expected: "user_id" },
+							messageId: "suggestName",
+							output: `import { integer, sqliteTable } from "drizzle-orm/sqlite-core";
+export const users = sqliteTable("users", { userID: integer("user_id"), lastLoginAt: integer({ mode: "timestamp" }) });`
+						}
+					]
+				},
+				{
+					data: { expected: "last_login_at", key: "lastLoginAt" },
+					messageId: "missingName",
+					suggestions: [
+						{
+							data: { expected: "last_login_at" },
+							messageId: "suggestName",
+							output: `import { integer, sqliteTable } from "drizzle-orm/sqlite-core";
+export const users = sqliteTable("users", { userID: integer(), lastLoginAt: integer("last_login_at", { mode: "timestamp" }) });`
+						}
+					]
+				}
+			],
+			name: "only suggests naming builders that fall back to the key"
+		},
+		{
+			code: `import { pgTable as table, text } from "drizzle-orm/pg-core";
+export const posts = table("posts", { authorName: text("author_name") });`,
+			errors: [
+				{
+					data: {
+						expected: "authorName",
+						key: "authorName",
+						name: "author_name"
+					},
+					messageId: "columnName"
+				}
+			],
+			options: [{ casing: "preserve" }],
+			output: `import { pgTable as table, text } from "drizzle-orm/pg-core";
+export const posts = table("posts", { authorName: text("authorName") });`
+		}
+	],
+	valid: [
+		`import { pgTable, timestamp } from "drizzle-orm/pg-core";
+export const users = pgTable("users", { createdAt: timestamp("created_at"), id: timestamp() });`,
+		{
+			code: `import { pgTable, timestamp } from "drizzle-orm/pg-core";
+export const users = pgTable("users", { createdAt: timestamp({ withTimezone: true }) });`,
+			name: "skips nameless builders under Drizzle's global casing",
+			options: [{ globalCasing: true }]
+		},
+		{
+			code: `import { pgTable, text } from "drizzle-orm/pg-core";
+const column = "displayName";
+export const users = pgTable("users", { displayName: text(column) });`,
+			name: "ignores names that are not string literals"
+		},
+		`import { pgTable } from "./tables";
+export const users = pgTable("users", { createdAt: timestamp("createdAt") });`
+	]
+});
+
+console.log("drizzle-column-casing: All tests passed!");
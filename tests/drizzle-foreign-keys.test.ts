@@ -0,0 +1,153 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { drizzleForeignKeys } from "../src/rules/drizzle-foreign-keys";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+ruleTester.run("drizzle-foreign-keys", drizzleForeignKeys, {
+	invalid: [
+		{
+			code: `import { integer, pgTable } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+});`,
+			errors: [
+				{
+					data: { column: "authorId" },
+					messageId: "missingIndex",
+					suggestions: [
+						{
+							data: {
+								column: "authorId",
+								name: "posts_author_id_idx",
+								table: "table"
+							},
+							messageId: "suggestIndex",
+							output: `import { integer, pgTable, index } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+}, (table) => [index("posts_author_id_idx").on(table.authorId)]);`
+						}
+					]
+				}
+			],
+			name: "suggests an extra-config callback with an index"
+		},
+		{
+			code: `import { index as idx, integer, pgTable } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").notNull().references(() => users.id),
+	editorId: integer("editor_id").references(() => users.id, { onDelete: "set null" })
+}, (posts) => [idx("posts_editor_id_idx").on(posts.editorId)]);`,
+			errors: [
+				{
+					data: { column: "authorId" },
+					messageId: "missingIndex",
+					suggestions: [
+						{
+							data: {
+								column: "authorId",
+								name: "posts_author_id_idx",
+								table: "posts"
+							},
+							messageId: "suggestIndex",
+							output: `import { index as idx, integer, pgTable } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").notNull().references(() => users.id),
+	editorId: integer("editor_id").references(() => users.id, { onDelete: "set null" })
+}, (posts) => [idx("posts_editor_id_idx").on(posts.editorId), idx("posts_author_id_idx").on(posts.authorId)]);`
+						}
+					]
+				},
+				{
+					data: { column: "authorId" },
+					messageId: "missingOnDelete"
+				}
+			],
+			name: "rejects a missing onDelete and extends the existing indexes"
+		},
+		{
+			code: `import { integer, sqliteTable, uniqueIndex } from "drizzle-orm/sqlite-core";
+export const members = sqliteTable("members", {
+	teamId: integer("team_id").references(() => teams.id, { onDelete: "cascade" }),
+	userId: integer("user_id").references(() => users.id, { onDelete: "cascade" })
+}, (table) => ({ membership: uniqueIndex("members_user_team").on(table.userId, table.teamId) }));`,
+			errors: [
+				{
+					data: { column: "teamId" },
+					messageId: "missingIndex",
+					suggestions: []
+				}
+			],
+			name: "only counts the leading column of a composite index"
+		},
+		{
+			code: `import { integer, pgTable } from "drizzle-orm/pg-core";
+import { index } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+});`,
+			errors: [
+				{
+					data: { column: "authorId" },
+					messageId: "missingIndex",
+					suggestions: [
+						{
+							data: {
+								column: "authorId",
+								name: "posts_author_id_idx",
+								table: "table"
+							},
+							messageId: "suggestIndex",
+							output: `import { integer, pgTable } from "drizzle-orm/pg-core";
+import { index } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+}, (table) => [index("posts_author_id_idx").on(table.authorId)]);`
+						}
+					]
+				}
+			],
+			name: "uses an index builder imported separately from the table"
+		}
+	],
+	valid: [
+		`import { index, integer, pgTable } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+}, (table) => [index("posts_author_id_idx").on(table.authorId)]);`,
+		`import { integer, mysqlTable, primaryKey } from "drizzle-orm/mysql-core";
+export const members = mysqlTable("members", {
+	teamId: integer("team_id").references(() => teams.id, { onDelete: "cascade" }),
+	userId: integer("user_id").references(() => users.id, { onDelete: "cascade" })
+}, (table) => [primaryKey({ columns: [table.userId, table.teamId] }), primaryKey({ columns: [table.teamId] })]);`,
+		`import { integer, pgTable } from "drizzle-orm/pg-core";
+export const profiles = pgTable("profiles", {
+	userId: integer("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" })
+});`,
+		`import { pgTable } from "./tables";
+export const posts = pgTable("posts", { authorId: integer("author_id").references(() => users.id) });`,
+		`import { index, integer, pgTable } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+}, (t) => {
+	return [index("a").on(t.authorId)];
+});`,
+		`import { index, integer, pgTable } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+}, (t) => {
+	const indexes = [index("a").on(t.authorId)];
+	return indexes;
+});`,
+		`import { integer, pgTable } from "drizzle-orm/pg-core";
+import { index } from "drizzle-orm/pg-core";
+export const posts = pgTable("posts", {
+	authorId: integer("author_id").references(() => users.id, { onDelete: "cascade" })
+}, (table) => [index("i").on(table.authorId)]);`
+	]
+});
+
+console.log("drizzle-foreign-keys: All tests passed!");
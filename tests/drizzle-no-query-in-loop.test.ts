@@ -0,0 +1,190 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { drizzleNoQueryInLoop } from "../src/rules/drizzle-no-query-in-loop";
+
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: parser.parser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
+const database = `import { drizzle } from "drizzle-orm/node-postgres";
+const db = drizzle(process.env.DATABASE_URL);
+`;
+
+ruleTester.run("drizzle-no-query-in-loop", drizzleNoQueryInLoop, {
+	invalid: [
+		{
+			code: `${database}const load = async (users) => {
+	for (const user of users) {
+		await db.select().from(posts).where(eq(posts.userId, user.id));
+	}
+};`,
+			errors: [
+				{
+					data: { loop: "a `for...of` loop", query: "select()" },
+					messageId: "queryInLoop"
+				}
+			],
+			name: "rejects a select inside a for...of loop"
+		},
+		{
+			code: `${database}const load = (users) =>
+	Promise.all(users.map((user) => db.query.posts.findMany({ where: eq(posts.userId, user.id) })));`,
+			errors: [
+				{
+					data: {
+						loop: "`Promise.all` over `.map()`",
+						query: "findMany()"
+					},
+					messageId: "queryInLoop"
+				}
+			],
+			name: "rejects relational queries in Promise.all over map"
+		},
+		{
+			code: `${database}const save = (rows) => {
+	rows.forEach(async (row) => {
+		await db.insert(posts).values(row);
+	});
+};`,
+			errors: [
+				{
+					data: {
+						loop: "a `.forEach()` callback",
+						query: "insert()"
+					},
+					messageId: "writeInLoop"
+				}
+			],
+			name: "rejects writes inside forEach callbacks"
+		},
+		{
+			code: `${database}const loadPosts = (userId) => db.select().from(posts).where(eq(posts.userId, userId));
+const load = async (users) => {
+	let index = 0;
+	while (index < users.length) {
+		await loadPosts(users[index].id);
+		index += 1;
+	}
+	return Promise.all(users.map(loadPosts));
+};`,
+			errors: [
+				{
+					data: { loop: "a `while` loop", query: "loadPosts()" },
+					messageId: "queryInLoop"
+				},
+				{
+					data: {
+						loop: "`Promise.all` over `.map()`",
+						query: "loadPosts()"
+					},
+					messageId: "queryInLoop"
+				}
+			],
+			name: "follows same-file helpers that run queries"
+		},
+		{
+			code: `${database}await db.transaction(async (tx) => {
+	for (const row of rows) await tx.update(posts).set(row).where(eq(posts.id, row.id));
+});`,
+			errors: [
+				{
+					data: { loop: "a `for...of` loop", query: "update()" },
+					messageId: "writeInLoop"
+				}
+			],
+			name: "recognizes transaction handles"
+		},
+		{
+			code: `${database}const load = (users) => users.map(async (user) => {
+	while (true) {
+		try {
+			return await db.select().from(posts).where(eq(posts.userId, user.id));
+		} catch {}
+	}
+});`,
+			errors: [
+				{
+					data: { loop: "a `.map()` callback", query: "select()" },
+					messageId: "queryInLoop"
+				}
+			],
+			name: "still reports the callback around a retry loop"
+		}
+	],
+	valid: [
+		{
+			code: `${database}const load = async (users) =>
+	db.select().from(posts).where(inArray(posts.userId, users.map((user) => user.id)));`,
+			name: "accepts a batched query"
+		},
+		{
+			code: `${database}const load = async () => {
+	for (const user of await db.select().from(users)) console.log(user.name);
+};`,
+			name: "accepts a query that produces the iterated rows"
+		},
+		{
+			code: `${database}const handlers = routes.map((route) => () => db.select().from(route.table));`,
+			name: "ignores queries deferred into functions the callback returns"
+		},
+		{
+			code: `import { drizzle } from "./local-drizzle";
+const db = drizzle();
+for (const user of users) await db.select().from(posts);`,
+			name: "only trusts drizzle imported from drizzle-orm"
+		},
+		{
+			code: `${database}const load = async () => {
+	while (true) {
+		try {
+			return await db.select().from(users);
+		} catch {}
+	}
+};`,
+			name: "accepts a retry loop that returns the first successful query"
+		}
+	]
+});
+
+typedRuleTester.run("drizzle-no-query-in-loop (typed)", drizzleNoQueryInLoop, {
+	invalid: [
+		{
+			code: `import { database } from "./client";
+export const load = async (ids: number[]) => {
+	for (const id of ids) await database.select().from(id);
+};`,
+			errors: [
+				{
+					data: { loop: "a `for...of` loop", query: "select()" },
+					messageId: "queryInLoop"
+				}
+			],
+			filename: "src/backend/db/queries.ts",
+			name: "recognizes an imported database by its type"
+		}
+	],
+	valid: [
+		{
+			code: `const cache = { select: () => [] };
+export const load = (ids: number[]) => ids.map(() => cache.select());`,
+			filename: "src/backend/db/queries.ts",
+			name: "ignores values with unrelated types"
+		}
+	]
+});
+
+console.log("drizzle-no-query-in-loop: All tests passed!");
@@ -0,0 +1,215 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { drizzleRequireTransaction } from "../src/rules/drizzle-require-transaction";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const database = `import { drizzle } from "drizzle-orm/node-postgres";
+const db = drizzle(process.env.DATABASE_URL);
+`;
+
+ruleTester.run("drizzle-require-transaction", drizzleRequireTransaction, {
+	invalid: [
+		{
+			code: `${database}const checkout = async (order) => {
+	await db.insert(orders).values(order);
+	await db.update(inventory).set({ reserved: true }).where(eq(inventory.id, order.itemId));
+};`,
+			errors: [
+				{
+					data: { count: 2, database: "db" },
+					messageId: "multipleWrites",
+					suggestions: [
+						{
+							data: { database: "db" },
+							messageId: "suggestTransaction",
+							output: `${database}const checkout = async (order) => {
+	await db.transaction(async (tx) => {
+		await tx.insert(orders).values(order);
+		await tx.update(inventory).set({ reserved: true }).where(eq(inventory.id, order.itemId));
+	});
+};`
+						}
+					]
+				}
+			],
+			name: "rejects sequential writes and suggests a transaction"
+		},
+		{
+			code: `${database}const checkout = async (order) => {
+	const [created] = await db.insert(orders).values(order).returning();
+	await db.delete(carts).where(eq(carts.userId, created.userId));
+	return created;
+};`,
+			errors: [
+				{
+					data: { count: 2, database: "db" },
+					messageId: "multipleWrites",
+					suggestions: []
+				}
+			],
+			name: "does not suggest wrapping when a declaration would leave scope"
+		},
+		{
+			code: `${database}const save = async (id, user) => {
+	if (id) await db.update(users).set(user).where(eq(users.id, id));
+	await db.insert(audit).values({ userId: id });
+};`,
+			errors: [
+				{
+					data: { count: 2, database: "db" },
+					messageId: "multipleWrites",
+					suggestions: []
+				}
+			],
+			name: "counts a conditional write that falls through to another"
+		},
+		{
+			code: `${database}await db.transaction(async (tx) => {
+	await tx.insert(orders).values(order);
+	await db.update(inventory).set(stock).where(eq(inventory.id, order.itemId));
+});`,
+			errors: [
+				{
+					data: { database: "db", transaction: "`tx`" },
+					messageId: "outerDatabase",
+					suggestions: [
+						{
+							data: { transaction: "tx" },
+							messageId: "suggestTransactionHandle",
+							output: `${database}await db.transaction(async (tx) => {
+	await tx.insert(orders).values(order);
+	await tx.update(inventory).set(stock).where(eq(inventory.id, order.itemId));
+});`
+						}
+					]
+				}
+			],
+			name: "rejects the outer database inside a transaction"
+		},
+		{
+			code: `${database}await db.transaction(async (trx) => {
+	const rows = await db.query.orders.findMany();
+	await trx.insert(audit).values(rows);
+});`,
+			errors: [
+				{
+					data: { database: "db", transaction: "`trx`" },
+					messageId: "outerDatabase",
+					suggestions: [
+						{
+							data: { transaction: "trx" },
+							messageId: "suggestTransactionHandle",
+							output: `${database}await db.transaction(async (trx) => {
+	const rows = await trx.query.orders.findMany();
+	await trx.insert(audit).values(rows);
+});`
+						}
+					]
+				}
+			],
+			name: "rejects outer reads inside a transaction"
+		},
+		{
+			code: `${database}const archive = async (id) => {
+	await db.update(users).set({
+		note: sql\`archived
+at \${now}\`
+	});
+	await db.delete(sessions).where(eq(sessions.userId, id));
+};`,
+			errors: [
+				{
+					data: { count: 2, database: "db" },
+					messageId: "multipleWrites",
+					suggestions: [
+						{
+							data: { database: "db" },
+							messageId: "suggestTransaction",
+							output: `${database}const archive = async (id) => {
+	await db.transaction(async (tx) => {
+		await tx.update(users).set({
+			note: sql\`archived
+at \${now}\`
+		});
+		await tx.delete(sessions).where(eq(sessions.userId, id));
+	});
+};`
+						}
+					]
+				}
+			],
+			name: "does not indent the lines of a template literal"
+		}
+	],
+	valid: [
+		{
+			code: `${database}await db.transaction(async (tx) => {
+	await tx.insert(orders).values(order);
+	await tx.update(inventory).set(stock).where(eq(inventory.id, order.itemId));
+});`,
+			name: "accepts writes inside a transaction"
+		},
+		{
+			code: `${database}const create = async (order) => {
+	const [created] = await db.insert(orders).values(order).returning();
+	return db.query.orders.findFirst({ where: eq(orders.id, created.id) });
+};`,
+			name: "accepts a single write followed by reads"
+		},
+		{
+			code: `${database}const archive = async (order) => {
+	await db.insert(archive).values(order);
+};
+const remove = async (id) => {
+	await db.delete(orders).where(eq(orders.id, id));
+};`,
+			name: "counts writes per function"
+		},
+		{
+			code: `${database}const build = () => [db.insert(orders).values(order), db.delete(carts)];`,
+			name: "ignores writes that are only built"
+		},
+		{
+			code: `${database}const save = async (id, user) => {
+	if (id) await db.update(users).set(user).where(eq(users.id, id));
+	else await db.insert(users).values(user);
+};`,
+			name: "accepts writes on the two arms of an if statement"
+		},
+		{
+			code: `${database}const save = (id, user) => {
+	if (id) return db.update(users).set(user).where(eq(users.id, id));
+	return db.insert(users).values(user);
+};`,
+			name: "accepts a write after a branch that returns another"
+		},
+		{
+			code: `${database}const apply = async (action) => {
+	switch (action.type) {
+		case "create":
+			await db.insert(users).values(action.user);
+			break;
+		case "remove":
+			await db.delete(users).where(eq(users.id, action.id));
+			break;
+	}
+};`,
+			name: "accepts writes in separate switch cases"
+		},
+		{
+			code: `${database}const save = async (user) => {
+	try {
+		await db.insert(users).values(user);
+	} catch {
+		await db.insert(failures).values({ email: user.email });
+	}
+};`,
+			name: "accepts a write in a try block and its catch fallback"
+		}
+	]
+});
+
+console.log("drizzle-require-transaction: All tests passed!");
@@ -0,0 +1,92 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { drizzleRequireWhere } from "../src/rules/drizzle-require-where";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const database = `import { drizzle } from "drizzle-orm/node-postgres";
+const db = drizzle(process.env.DATABASE_URL);
+`;
+
+ruleTester.run("drizzle-require-where", drizzleRequireWhere, {
+	invalid: [
+		{
+			code: `${database}await db.update(users).set({ active: false });`,
+			errors: [
+				{ data: { method: "update" }, messageId: "unboundedWrite" }
+			],
+			name: "rejects an awaited update without where"
+		},
+		{
+			code: `${database}const clear = () => db.delete(sessions).returning();`,
+			errors: [
+				{ data: { method: "delete" }, messageId: "unboundedWrite" }
+			],
+			name: "rejects a returned delete without where"
+		},
+		{
+			code: `${database}db.delete(sessions).execute();`,
+			errors: [
+				{ data: { method: "delete" }, messageId: "unboundedWrite" }
+			],
+			name: "rejects an executed delete without where"
+		},
+		{
+			code: `${database}await db.transaction(async (tx) => {
+	await tx.delete(sessions);
+});`,
+			errors: [
+				{ data: { method: "delete" }, messageId: "unboundedWrite" }
+			],
+			name: "follows transaction handles"
+		},
+		{
+			code: `${database}// absolute-allow-unbounded
+await db.delete(sessions);
+await db.delete(tokens);`,
+			errors: [
+				{ data: { method: "delete" }, messageId: "unboundedWrite" }
+			],
+			name: "only applies the allow comment to the next statement"
+		},
+		{
+			code: `${database}await unbounded(() => db.delete(sessions));`,
+			errors: [
+				{ data: { method: "delete" }, messageId: "unboundedWrite" }
+			],
+			name: "requires wrappers to be configured"
+		}
+	],
+	valid: [
+		`${database}await db.update(users).set({ active: false }).where(eq(users.id, id));`,
+		`${database}const remove = (id) => db.delete(sessions).where(eq(sessions.id, id)).returning();`,
+		`${database}await db.select().from(users);`,
+		{
+			code: `${database}const pending = db.delete(sessions);`,
+			name: "ignores chains that are built but not run here"
+		},
+		{
+			code: `${database}// absolute-allow-unbounded -- nightly cleanup
+await db.delete(sessions);`,
+			name: "accepts an allow comment on the previous line"
+		},
+		{
+			code: `${database}await db.delete(sessions); // absolute-allow-unbounded`,
+			name: "accepts an allow comment on the same line"
+		},
+		{
+			code: `${database}await unbounded(() => db.delete(sessions));`,
+			name: "accepts configured wrappers",
+			options: [{ allowWrappers: ["unbounded"] }]
+		},
+		{
+			code: `const db = createStore();
+await db.delete(sessions);`,
+			name: "ignores handles that are not Drizzle databases"
+		}
+	]
+});
+
+console.log("drizzle-require-where: All tests passed!");
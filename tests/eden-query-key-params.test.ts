@@ -0,0 +1,213 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { edenQueryKeyParams } from "../src/rules/eden-query-key-params";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const client = `import { treaty } from "@elysiajs/eden";
+import { useQuery } from "@tanstack/react-query";
+const client = treaty<App>("localhost:3000");
+`;
+
+ruleTester.run("eden-query-key-params", edenQueryKeyParams, {
+	invalid: [
+		{
+			code: `${client}const User = ({ id }) => useQuery({
+	queryFn: () => client.users({ id }).get(),
+	queryKey: ["user"]
+});`,
+			errors: [
+				{
+					data: { values: "`id`" },
+					messageId: "missingKeyParts",
+					suggestions: [
+						{
+							data: { key: '["users", id]' },
+							messageId: "suggestQueryKey",
+							output: `${client}const User = ({ id }) => useQuery({
+	queryFn: () => client.users({ id }).get(),
+	queryKey: ["users", id]
+});`
+						}
+					]
+				}
+			],
+			name: "requires a dynamic path segment in the key"
+		},
+		{
+			code: `${client}const Posts = ({ page, userId }) => useQuery({
+	queryFn: () => client.users({ id: userId }).posts.get({ query: { page } }),
+	queryKey: ["posts", userId]
+});`,
+			errors: [
+				{
+					data: { values: "`page`" },
+					messageId: "missingKeyParts",
+					suggestions: [
+						{
+							data: {
+								key: '["users", userId, "posts", { page }]'
+							},
+							messageId: "suggestQueryKey",
+							output: `${client}const Posts = ({ page, userId }) => useQuery({
+	queryFn: () => client.users({ id: userId }).posts.get({ query: { page } }),
+	queryKey: ["users", userId, "posts", { page }]
+});`
+						}
+					]
+				}
+			],
+			name: "requires query arguments in the key"
+		},
+		{
+			code: `${client}const fetchUser = (userId) => client.users({ id: userId }).get();
+const User = ({ id }) => useQuery({ queryFn: () => fetchUser(id), queryKey: ["user"] });`,
+			errors: [
+				{
+					data: { values: "`id`" },
+					messageId: "missingKeyParts",
+					suggestions: [
+						{
+							data: { key: '["users", id]' },
+							messageId: "suggestQueryKey",
+							output: `${client}const fetchUser = (userId) => client.users({ id: userId }).get();
+const User = ({ id }) => useQuery({ queryFn: () => fetchUser(id), queryKey: ["users", id] });`
+						}
+					]
+				}
+			],
+			name: "follows same-file helpers and maps their parameters"
+		},
+		{
+			code: `import { edenFetch } from "@elysiajs/eden";
+import { queryOptions } from "@tanstack/react-query";
+const fetcher = edenFetch<App>("localhost:3000");
+export const userQuery = (props) => queryOptions({
+	queryFn: () => fetcher("/users/:id", { params: { id: props.id } }),
+	queryKey: ["user"]
+});`,
+			errors: [
+				{
+					data: { values: "`props.id`" },
+					messageId: "missingKeyParts",
+					suggestions: [
+						{
+							data: { key: '["users", props.id]' },
+							messageId: "suggestQueryKey",
+							output: `import { edenFetch } from "@elysiajs/eden";
+import { queryOptions } from "@tanstack/react-query";
+const fetcher = edenFetch<App>("localhost:3000");
+export const userQuery = (props) => queryOptions({
+	queryFn: () => fetcher("/users/:id", { params: { id: props.id } }),
+	queryKey: ["users", props.id]
+});`
+						}
+					]
+				}
+			],
+			name: "reads path parameters of edenFetch requests"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+import { createQuery } from "@tanstack/solid-query";
+const client = treaty<App>("localhost:3000");
+const User = (props) => createQuery(() => ({
+	queryFn: () => client.users({ id: props.id() }).get(),
+	queryKey: ["user"]
+}));`,
+			errors: [
+				{
+					data: { values: "`props.id()`" },
+					messageId: "missingKeyParts",
+					suggestions: [
+						{
+							data: { key: '["users", props.id()]' },
+							messageId: "suggestQueryKey",
+							output: `import { treaty } from "@elysiajs/eden";
+import { createQuery } from "@tanstack/solid-query";
+const client = treaty<App>("localhost:3000");
+const User = (props) => createQuery(() => ({
+	queryFn: () => client.users({ id: props.id() }).get(),
+	queryKey: ["users", props.id()]
+}));`
+						}
+					]
+				}
+			],
+			name: "reads options returned from a thunk"
+		},
+		{
+			code: `${client}const Users = ({ ids }) => useQuery({
+	queryFn: () => Promise.all([client.users({ id: ids[0] }).get(), client.teams({ id: team }).get()]),
+	queryKey: ["users", ids]
+});
+let team = "core";`,
+			errors: [
+				{
+					data: { values: "`team`" },
+					messageId: "missingKeyParts",
+					suggestions: []
+				}
+			],
+			name: "only suggests a key for a single request"
+		}
+	],
+	valid: [
+		{
+			code: `${client}const User = ({ id }) => useQuery({
+	queryFn: () => client.users({ id }).get(),
+	queryKey: ["users", id]
+});`,
+			name: "accepts a key that includes the path parameter"
+		},
+		{
+			code: `${client}const Posts = ({ filters, user }) => useQuery({
+	queryFn: () => client.users({ id: user.id }).posts.get({ query: filters }),
+	queryKey: ["posts", user, filters]
+});`,
+			name: "accepts objects that contain the request values"
+		},
+		{
+			code: `${client}const LIMIT = 20;
+const Users = () => useQuery({
+	queryFn: () => client.users.get({ query: { limit: LIMIT, sort: "name" } }),
+	queryKey: ["users"]
+});`,
+			name: "ignores constant request values"
+		},
+		{
+			code: `${client}const Users = () => useQuery({
+	queryFn: ({ pageParam, queryKey: [, id] }) =>
+		client.users({ id }).get({ query: { page: pageParam } }),
+	queryKey: ["users", "list"]
+});`,
+			name: "ignores values the query function receives itself"
+		},
+		{
+			code: `${client}const userKey = (id) => ["users", id];
+const User = ({ id }) => useQuery({
+	queryFn: () => client.users({ id }).get(),
+	queryKey: userKey(id)
+});`,
+			name: "accepts values passed to a key factory"
+		},
+		{
+			code: `${client}const User = ({ id }) => {
+	const key = ["users", id];
+	return useQuery({ queryFn: () => client.users({ id }).get(), queryKey: key });
+};`,
+			name: "reads a key declared in a variable"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+const useQuery = (options) => options;
+const User = ({ id }) => useQuery({ queryFn: () => client.users({ id }).get(), queryKey: ["user"] });`,
+			name: "ignores functions that are not TanStack Query factories"
+		}
+	]
+});
+
+console.log("eden-query-key-params: All tests passed!");
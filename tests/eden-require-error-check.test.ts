@@ -0,0 +1,157 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { edenRequireErrorCheck } from "../src/rules/eden-require-error-check";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const client = `import { treaty } from "@elysiajs/eden";
+import { useQuery } from "@tanstack/react-query";
+const client = treaty<App>("localhost:3000");
+`;
+
+ruleTester.run("eden-require-error-check", edenRequireErrorCheck, {
+	invalid: [
+		{
+			code: `${client}const load = async () => {
+	const { data } = await client.users.get();
+	return data.length;
+};`,
+			errors: [{ data: { name: "data" }, messageId: "uncheckedData" }],
+			name: "rejects reading data without a guard"
+		},
+		{
+			code: `${client}const load = async () => {
+	const response = await client.users({ id: "1" }).get();
+	return response.data.name;
+};`,
+			errors: [
+				{ data: { name: "response.data" }, messageId: "uncheckedData" }
+			],
+			name: "follows the result through a local variable"
+		},
+		{
+			code: `${client}const load = async () => (await client.users.get()).data.length;`,
+			errors: [
+				{
+					data: { name: "(await client.users.get()).data" },
+					messageId: "uncheckedData"
+				}
+			],
+			name: "rejects reading data straight from the request"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data, error } = await client.users.get();
+	const users = data;
+	console.log(error);
+	return users.map((user) => user.name);
+};`,
+			errors: [{ data: { name: "users" }, messageId: "uncheckedData" }],
+			name: "follows data through an alias"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data, error } = await client.users.get();
+	if (error) console.warn(error);
+	const { name } = data;
+	return name;
+};`,
+			errors: [{ data: { name: "data" }, messageId: "uncheckedData" }],
+			name: "does not accept a guard that falls through"
+		},
+		{
+			code: `${client}const Users = () => useQuery({
+	queryFn: async () => {
+		const { data } = await client.users.get();
+		return data;
+	},
+	queryKey: ["users"]
+});`,
+			errors: [{ data: { name: "data" }, messageId: "unthrownError" }],
+			name: "rejects a queryFn that returns data without throwing"
+		},
+		{
+			code: `${client}const fetchUsers = async () => {
+	const { data, error } = await client.users.get();
+	if (error) return [];
+	return data;
+};
+const Users = () => useQuery({ queryFn: () => fetchUsers(), queryKey: ["users"] });`,
+			errors: [{ data: { name: "data" }, messageId: "unthrownError" }],
+			name: "requires the error to be thrown in helpers a queryFn returns"
+		}
+	],
+	valid: [
+		{
+			code: `${client}const load = async () => {
+	const { data, error } = await client.users.get();
+	if (error) throw error;
+	return data.length;
+};`,
+			name: "accepts a throwing error guard"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data } = await client.users.get();
+	if (!data) return 0;
+	return data.length;
+};`,
+			name: "accepts a data guard"
+		},
+		{
+			code: `${client}const load = async () => {
+	const response = await client.users.get();
+	if (response.error !== null) return [];
+	return response.data.map((user) => user.name);
+};`,
+			name: "accepts a guard on the result object"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data, error } = await client.users.get();
+	if (!error) {
+		return data.length;
+	}
+	return 0;
+};`,
+			name: "accepts reads inside a success branch"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data, error } = await client.users.get();
+	const names = error ? [] : data.map((user) => user.name);
+	return data && data.length > 0 ? names : [];
+};`,
+			name: "accepts conditional and logical guards"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data } = await client.users.get();
+	return data?.length ?? 0;
+};`,
+			name: "accepts optional member access"
+		},
+		{
+			code: `${client}const Users = () => useQuery({
+	queryFn: async () => {
+		const { data, error } = await client.users.get();
+		if (error) throw error;
+		return data;
+	},
+	queryKey: ["users"]
+});`,
+			name: "accepts a queryFn that throws the error"
+		},
+		{
+			code: `${client}const load = async () => {
+	const { data } = await client.users.get();
+	return data;
+};`,
+			name: "allows passing data along outside a queryFn"
+		}
+	]
+});
+
+console.log("eden-require-error-check: All tests passed!");
@@ -1,6 +1,9 @@
 import { RuleTester } from "@typescript-eslint/rule-tester";
 import parser from "typescript-eslint";
-import { edenRequiresReactQuery } from "../src/rules/eden-requires-react-query";
+import { edenQueryRule } from "../src/rules/eden-requires-tanstack-query";
+
+// The deprecated alias keeps reporting with the message id it shipped with.
+const edenRequiresReactQuery = edenQueryRule("outsideReactQuery");
 
 const ruleTester = new RuleTester({
 	languageOptions: { parser: parser.parser }
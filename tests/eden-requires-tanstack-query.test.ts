@@ -0,0 +1,277 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import vueParser from "vue-eslint-parser";
+import { edenRequiresTanstackQuery } from "../src/rules/eden-requires-tanstack-query";
+
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const vueRuleTester = new RuleTester({
+	languageOptions: {
+		ecmaVersion: 2020,
+		parser: vueParser,
+		parserOptions: {
+			extraFileExtensions: [".vue"],
+			parser: parser.parser,
+			sourceType: "module"
+		},
+		sourceType: "module"
+	}
+});
+
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: parser.parser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
+ruleTester.run("eden-requires-tanstack-query", edenRequiresTanstackQuery, {
+	invalid: [
+		{
+			code: `const save = async () => client.api.projects.post({ name: "Site" });`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "rejects a direct Eden request"
+		},
+		{
+			code: `import { useEffect } from "react";
+const Screen = () => {
+	useEffect(() => { void client.api.projects.get(); }, []);
+	return null;
+};`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "rejects backend state fetched from an effect"
+		},
+		{
+			code: `const useMutation = (value) => value;
+const Screen = () => useMutation({ mutationFn: () => client.api.projects.post() });`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "does not trust a hook-shaped local function"
+		},
+		{
+			code: `const projects = client.api.projects;
+const save = () => projects.post({ name: "Site" });`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "follows a locally aliased Eden endpoint"
+		},
+		{
+			code: `import { treaty as createClient } from "@elysiajs/eden";
+const server = createClient<App>("localhost:3000");
+const load = () => server.users({ id: "1" }).get();`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "follows an aliased treaty import"
+		},
+		{
+			code: `import * as eden from "@elysiajs/eden";
+const backend = eden.edenTreaty<App>("localhost:3000");
+const load = () => backend.users.get();`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "follows a namespace edenTreaty import"
+		},
+		{
+			code: `import { edenFetch } from "@elysiajs/eden";
+const fetcher = edenFetch<App>("localhost:3000");
+const load = () => fetcher("/users", {});`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "treats a call to an edenFetch client as a request"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import { createQuery } from "@tanstack/vue-query";
+const projects = createQuery({ queryFn: () => client.api.projects.get() });`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "only trusts factories the adapter exports"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import { injectQuery } from "@tanstack/angular-query-experimental";
+const load = () => client.api.projects.get();
+const projects = injectQuery(() => {
+	void load();
+	return { queryFn: async () => [], queryKey: ["projects"] };
+});`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "rejects a request made by the options thunk itself"
+		},
+		{
+			code: `const load = () => context.api.users.get();`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "recognizes configured client names",
+			options: [{ clients: ["api"] }]
+		},
+		{
+			code: `import { backend } from "@/lib/backend";
+const load = () => backend.users.post({ name: "Ada" });`,
+			errors: [{ messageId: "outsideQueryFunction" }],
+			name: "recognizes bindings imported from configured modules",
+			options: [{ modules: ["@/lib/backend"] }]
+		}
+	],
+	valid: [
+		{
+			code: `import { useQuery } from "@tanstack/react-query";
+const Screen = () => useQuery({ queryFn: async () => client.api.projects.get(), queryKey: ["projects"] });`,
+			name: "allows an inline query function"
+		},
+		{
+			code: `import { useMutation as useCommand } from "@tanstack/react-query";
+const send = async () => client.api.projects.post({ name: "Site" });
+const request = async () => send();
+const Screen = () => useCommand({ mutationFn: request });`,
+			name: "follows aliased imports and referenced helper calls"
+		},
+		{
+			code: `import { useMutation } from "@tanstack/react-query";
+const Screen = () => {
+	const action = useMutation({ mutationFn: (input) => input.request() });
+	return <button onClick={() => action.mutate({ request: () => client.api.projects.post() })} />;
+};`,
+			filename: "screen.tsx",
+			name: "allows a request closure executed by mutation variables"
+		},
+		{
+			code: `import { useQuery } from "@tanstack/react-query";
+const Screen = ({ ids }) => useQuery({
+	queryFn: () => Promise.all(ids.map((id) => client.api.projects({ id }).get())),
+	queryKey: ["projects", ids]
+});`,
+			name: "follows nested callbacks inside a query function"
+		},
+		{
+			code: `type Result = ReturnType<typeof client.api.projects.get>;`,
+			name: "ignores Eden type queries"
+		},
+		{
+			code: `import { useQuery } from "@tanstack/react-query";
+const projects = client.api.projects;
+const Screen = () => useQuery({ queryFn: () => projects.get(), queryKey: ["projects"] });`,
+			name: "allows an aliased endpoint inside a query function"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import { useQuery } from "@tanstack/vue-query";
+const projects = useQuery({ queryFn: () => client.api.projects.get(), queryKey: ["projects"] });`,
+			name: "allows a Vue Query query function"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import { createQuery } from "@tanstack/svelte-query";
+const projects = createQuery({ queryFn: () => client.api.projects.get(), queryKey: ["projects"] });`,
+			name: "allows a Svelte Query query function"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import { createMutation as createCommand } from "@tanstack/solid-query";
+const save = createCommand(() => ({ mutationFn: () => client.api.projects.post() }));`,
+			name: "allows an aliased Solid Query mutation with an options thunk"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import { injectQuery } from "@tanstack/angular-query-experimental";
+class ProjectsComponent {
+	projects = injectQuery(() => ({ queryFn: () => client.api.projects.get(), queryKey: ["projects"] }));
+}`,
+			name: "allows an Angular Query options thunk"
+		},
+		{
+			code: `import { treaty } from "@elysiajs/eden";
+const client = treaty<App>("localhost:3000");
+import * as query from "@tanstack/vue-query";
+const projects = query.useQuery({ queryFn: () => client.api.projects.get(), queryKey: ["projects"] });`,
+			name: "follows a namespace adapter import"
+		},
+		{
+			code: `const load = () => context.api.users.get();`,
+			name: "treats no member names as clients when `clients` is empty",
+			options: [{ clients: [] }]
+		},
+		{
+			code: `import { treaty } from "./local-treaty";
+const client = treaty("localhost:3000");
+const load = () => client.users.get();`,
+			name: "only trusts factories imported from @elysiajs/eden"
+		}
+	]
+});
+
+typedRuleTester.run(
+	"eden-requires-tanstack-query (typed)",
+	edenRequiresTanstackQuery,
+	{
+		invalid: [
+			{
+				code: `import { server } from "./client";
+export const load = () => server.users.get();`,
+				errors: [{ messageId: "outsideQueryFunction" }],
+				filename: "src/frontend/screen.ts",
+				name: "recognizes an imported value typed as a Treaty client"
+			},
+			{
+				code: `import type { Treaty } from "@elysiajs/eden";
+export const load = (backend: Treaty.Create<unknown>) =>
+	backend.users({ id: "1" }).get();`,
+				errors: [{ messageId: "outsideQueryFunction" }],
+				filename: "src/frontend/screen.ts",
+				name: "recognizes a parameter typed as a Treaty client"
+			}
+		],
+		valid: [
+			{
+				code: `const cache = new Map<string, { get: () => string }>();
+export const load = () => cache.get("users")?.get();`,
+				filename: "src/frontend/screen.ts",
+				name: "ignores values with unrelated types"
+			}
+		]
+	}
+);
+
+vueRuleTester.run(
+	"eden-requires-tanstack-query (vue)",
+	edenRequiresTanstackQuery,
+	{
+		invalid: [
+			{
+				code: `<script setup lang="ts">
+import { treaty } from "@elysiajs/eden";
+import { onMounted } from "vue";
+const client = treaty<App>("localhost:3000");
+onMounted(() => { void client.api.projects.get(); });
+</script>
+<template><main /></template>`,
+				errors: [{ messageId: "outsideQueryFunction" }],
+				filename: "Projects.vue",
+				name: "rejects a request made from a Vue lifecycle hook"
+			}
+		],
+		valid: [
+			{
+				code: `<script setup lang="ts">
+import { treaty } from "@elysiajs/eden";
+import { useQuery } from "@tanstack/vue-query";
+const client = treaty<App>("localhost:3000");
+const projects = useQuery({ queryFn: () => client.api.projects.get(), queryKey: ["projects"] });
+</script>
+<template><main /></template>`,
+				filename: "Projects.vue",
+				name: "allows a Vue Query query function in script setup"
+			}
+		]
+	}
+);
+
+console.log("eden-requires-tanstack-query: All tests passed!");
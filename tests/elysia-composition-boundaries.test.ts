@@ -1,11 +1,25 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import { RuleTester } from "@typescript-eslint/rule-tester";
 import parser from "typescript-eslint";
 import { elysiaCompositionBoundaries } from "../src/rules/elysia-composition-boundaries";
 
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
 const ruleTester = new RuleTester({
 	languageOptions: { parser: parser.parser }
 });
 
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: parser.parser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
 ruleTester.run("elysia-composition-boundaries", elysiaCompositionBoundaries, {
 	invalid: [
 		{
@@ -83,8 +97,45 @@ const second = builder.get("value");`,
 const platform = new Elysia();
 const server = platform.use(networking).onStop(close);`,
 			name: "allows a terminal lifecycle composition without new routes"
+		},
+		{
+			code: `import { sharedApp } from "./app";
+export const adminApp = sharedApp.get("/admin", () => "admin");`,
+			name: "cannot see imported applications without type information"
 		}
 	]
 });
 
+typedRuleTester.run(
+	"elysia-composition-boundaries (typed)",
+	elysiaCompositionBoundaries,
+	{
+		invalid: [
+			{
+				code: `import { sharedApp } from "../app";
+export const adminApp = sharedApp.get("/admin", () => "admin");`,
+				errors: [
+					{
+						data: { source: "sharedApp" },
+						messageId: "independentRouteApp"
+					}
+				],
+				filename: "src/backend/routes/admin.ts",
+				name: "follows an imported application to its module"
+			}
+		],
+		valid: [
+			{
+				code: `import { Elysia } from "elysia";
+import { auth } from "../plugins/auth";
+export const adminApp = new Elysia({ name: "admin" })
+	.use(auth)
+	.get("/admin", () => "admin");`,
+				filename: "src/backend/routes/admin.ts",
+				name: "accepts a new application that installs an imported plugin"
+			}
+		]
+	}
+);
+
 console.log("elysia-composition-boundaries: All tests passed!");
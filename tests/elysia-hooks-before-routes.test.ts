@@ -0,0 +1,142 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { elysiaHooksBeforeRoutes } from "../src/rules/elysia-hooks-before-routes";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+ruleTester.run("elysia-hooks-before-routes", elysiaHooksBeforeRoutes, {
+	invalid: [
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia()
+	.get("/admin", dashboard)
+	.onBeforeHandle(requireAdmin)
+	.get("/admin/users", listUsers);`,
+			errors: [
+				{
+					data: { hook: "onBeforeHandle", route: '`get("/admin")`' },
+					messageId: "hookAfterRoute",
+					suggestions: [
+						{
+							data: { hook: "onBeforeHandle" },
+							messageId: "moveHook",
+							output: `import { Elysia } from "elysia";
+new Elysia()
+	.onBeforeHandle(requireAdmin)
+	.get("/admin", dashboard)
+	.get("/admin/users", listUsers);`
+						}
+					]
+				}
+			],
+			name: "rejects a hook registered after a route"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().post("/users", createUser).derive(readSession).guard({ headers: AuthHeaders });`,
+			errors: [
+				{
+					data: { hook: "derive", route: '`post("/users")`' },
+					messageId: "hookAfterRoute",
+					suggestions: [
+						{
+							data: { hook: "derive" },
+							messageId: "moveHook",
+							output: `import { Elysia } from "elysia";
+new Elysia().derive(readSession).post("/users", createUser).guard({ headers: AuthHeaders });`
+						}
+					]
+				},
+				{
+					data: { hook: "guard", route: '`post("/users")`' },
+					messageId: "hookAfterRoute",
+					suggestions: [
+						{
+							data: { hook: "guard" },
+							messageId: "moveHook",
+							output: `import { Elysia } from "elysia";
+new Elysia().guard({ headers: AuthHeaders }).post("/users", createUser).derive(readSession);`
+						}
+					]
+				}
+			],
+			name: "treats derive and a guard without a callback as hooks"
+		},
+		{
+			code: `new Elysia()
+	.get("/users", listUsers)
+	// Logged after the response is built.
+	.onAfterHandle(logResponse);`,
+			errors: [
+				{
+					data: { hook: "onAfterHandle", route: '`get("/users")`' },
+					messageId: "hookAfterRoute",
+					suggestions: []
+				}
+			],
+			name: "does not suggest a move when the chain has comments"
+		},
+		{
+			code: `new Elysia().group("/admin", (app) =>
+	app.get("/stats", stats).resolve(loadAdmin).onError(reportError)
+);`,
+			errors: [
+				{
+					data: { hook: "resolve", route: '`get("/stats")`' },
+					messageId: "hookAfterRoute",
+					suggestions: [
+						{
+							data: { hook: "resolve" },
+							messageId: "moveHook",
+							output: `new Elysia().group("/admin", (app) =>
+	app.resolve(loadAdmin).get("/stats", stats).onError(reportError)
+);`
+						}
+					]
+				},
+				{
+					data: { hook: "onError", route: '`get("/stats")`' },
+					messageId: "hookAfterRoute",
+					suggestions: [
+						{
+							data: { hook: "onError" },
+							messageId: "moveHook",
+							output: `new Elysia().group("/admin", (app) =>
+	app.onError(reportError).get("/stats", stats).resolve(loadAdmin)
+);`
+						}
+					]
+				}
+			],
+			name: "checks chains inside group callbacks"
+		}
+	],
+	valid: [
+		{
+			code: `new Elysia()
+	.derive(readSession)
+	.onBeforeHandle(requireUser)
+	.get("/me", currentUser);`,
+			name: "accepts hooks registered before routes"
+		},
+		{
+			code: `new Elysia()
+	.get("/health", health)
+	.guard({ headers: AuthHeaders }, (app) => app.get("/me", currentUser));`,
+			name: "accepts a guard that scopes its own routes"
+		},
+		{
+			code: `new Elysia().get("/health", health).use(metrics).listen(3000);`,
+			name: "ignores plugins and other calls after routes"
+		},
+		{
+			code: `import { Hono } from "hono";
+new Hono().get("/x", handler).onError(reportError);`,
+			name: "ignores routers that are not Elysia applications"
+		}
+	]
+});
+
+console.log("elysia-hooks-before-routes: All tests passed!");
@@ -0,0 +1,199 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { elysiaNoDuplicateRoutes } from "../src/rules/elysia-no-duplicate-routes";
+
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: parser.parser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
+ruleTester.run("elysia-no-duplicate-routes", elysiaNoDuplicateRoutes, {
+	invalid: [
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().get("/users/:id", getUser).get("/users/:id", findUser);`,
+			errors: [
+				{
+					data: { method: "GET", path: "/users/:id" },
+					messageId: "duplicateRoute"
+				}
+			],
+			name: "rejects a route registered twice"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().get("/users/:id", getUser).delete("/users/:userId", removeUser).get("/users/:userId", findUser);`,
+			errors: [
+				{
+					data: {
+						method: "GET",
+						name: "userId",
+						other: "/users/:id",
+						otherName: "id",
+						path: "/users/:userId"
+					},
+					messageId: "paramConflict"
+				}
+			],
+			name: "rejects a parameter renamed at the same segment"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().get("/files/*", serveFile).get("/files/:name/meta", fileMeta);`,
+			errors: [
+				{
+					data: {
+						method: "GET",
+						path: "/files/:name/meta",
+						wildcard: "/files/*"
+					},
+					messageId: "shadowedRoute"
+				}
+			],
+			name: "rejects a route registered after a wildcard that matches it"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+const users = new Elysia({ prefix: "/users" }).get("/:id", getUser);
+new Elysia({ prefix: "/api" }).use(users).get("/users/:id", findUser);`,
+			errors: [
+				{
+					data: { method: "GET", path: "/api/users/:id" },
+					messageId: "duplicateRoute"
+				}
+			],
+			name: "joins constructor prefixes of the app and its plugins"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+const createUsers = () => new Elysia().get("/users", listUsers);
+new Elysia()
+	.group("/v1", (app) => app.use(createUsers()))
+	.get("/v1/users", listUsers);`,
+			errors: [
+				{
+					data: { method: "GET", path: "/v1/users" },
+					messageId: "duplicateRoute"
+				}
+			],
+			name: "follows route factories installed inside a group"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+const users = new Elysia().get("/users/:id", getUser);
+const legacy = new Elysia().get("/users/:id", legacyUser);
+new Elysia().use(users).use(legacy);`,
+			errors: [
+				{
+					data: { method: "GET", path: "/users/:id" },
+					messageId: "duplicateRoute"
+				}
+			],
+			name: "reports conflicting plugins at the later .use() argument"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().all("/health", health).get("/health", ping);`,
+			errors: [
+				{
+					data: { method: "GET", path: "/health" },
+					messageId: "duplicateRoute"
+				}
+			],
+			name: "treats all as every method"
+		}
+	],
+	valid: [
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().get("/users/:id", getUser).patch("/users/:id", updateUser);`,
+			name: "accepts the same path under different methods"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().get("/users/me", currentUser).get("/users/:id", getUser);`,
+			name: "accepts a static segment beside a parameter"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().group("/v1", (app) => app.get("/users", listUsers)).group("/v2", (app) => app.get("/users", listUsers));`,
+			name: "accepts the same path under different group prefixes"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia().get("/files/:name", fileInfo).get("/files/*", serveFile);`,
+			name: "accepts a wildcard registered after the routes it covers"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export const publicApp = new Elysia().get("/status", status);
+export const adminApp = new Elysia().get("/status", adminStatus);`,
+			name: "compares routes only within one application tree"
+		}
+	]
+});
+
+typedRuleTester.run(
+	"elysia-no-duplicate-routes (typed)",
+	elysiaNoDuplicateRoutes,
+	{
+		invalid: [
+			{
+				code: `import { Elysia } from "elysia";
+import { usersRoutes } from "./routes/users";
+new Elysia().use(usersRoutes).get("/users", listUsers);`,
+				errors: [
+					{
+						data: { method: "GET", path: "/users" },
+						messageId: "duplicateRoute"
+					}
+				],
+				filename: "src/backend/server.ts",
+				name: "reads the routes of an imported plugin"
+			},
+			{
+				code: `import { Elysia } from "elysia";
+import { createReports } from "./plugins/reports";
+new Elysia().use(createReports()).get("/reports/daily/:day", dailyReport);`,
+				errors: [
+					{
+						data: {
+							method: "GET",
+							name: "day",
+							other: "/reports/daily/:date",
+							otherName: "date",
+							path: "/reports/daily/:day"
+						},
+						messageId: "paramConflict"
+					}
+				],
+				filename: "src/backend/server.ts",
+				name: "applies the prefix and groups of an imported factory"
+			}
+		],
+		valid: [
+			{
+				code: `import { Elysia } from "elysia";
+import { usersRoutes } from "./routes/users";
+new Elysia().group("/v2", (app) => app.use(usersRoutes)).get("/users", listUsers);`,
+				filename: "src/backend/server.ts",
+				name: "prefixes imported routes with the enclosing group"
+			}
+		]
+	}
+);
+
+console.log("elysia-no-duplicate-routes: All tests passed!");
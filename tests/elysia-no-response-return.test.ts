@@ -11,7 +11,8 @@ ruleTester.run("elysia-no-response-return", elysiaNoResponseReturn, {
 		{
 			code: `new Elysia().get("/users", () => Response.json({ users: [] }));`,
 			errors: [{ messageId: "responseJson" }],
-			name: "rejects Response.json from an inline route"
+			name: "rejects Response.json from an inline route",
+			output: `new Elysia().get("/users", () => ({ users: [] }));`
 		},
 		{
 			code: `const missing = () => new Response(null, { status: 404 });
@@ -29,7 +30,8 @@ new Elysia().get("/users/:id", handler);`,
 		{
 			code: `new Elysia().route("POST", "/users", () => Response.json({ ok: true }));`,
 			errors: [{ messageId: "responseJson" }],
-			name: "understands the generic Elysia route signature"
+			name: "understands the generic Elysia route signature",
+			output: `new Elysia().route("POST", "/users", () => ({ ok: true }));`
 		},
 		{
 			code: `const shared = () => new Response(stream);
@@ -44,7 +46,136 @@ new Elysia().get("/download", shared).get("/json", shared);`,
 	return response;
 });`,
 			errors: [{ messageId: "responseJson" }],
-			name: "follows a Response stored before it is returned"
+			name: "follows a Response stored before it is returned",
+			output: `new Elysia().get("/users", () => {
+	const response = { users: [] };
+	return response;
+});`
+		},
+		{
+			code: `new Elysia().group("/admin", (app) =>
+	app.get("/users", () => Response.json({ users: [] }))
+);`,
+			errors: [{ messageId: "responseJson" }],
+			name: "checks routes registered inside a group",
+			output: `new Elysia().group("/admin", (app) =>
+	app.get("/users", () => ({ users: [] }))
+);`
+		},
+		{
+			code: `new Elysia().post("/users", ({ body }) =>
+	Response.json({ user: createUser(body) }, { status: 201 }));`,
+			errors: [{ messageId: "responseJson" }],
+			name: "rewrites a literal status and destructures status",
+			output: `new Elysia().post("/users", ({ body, status }) =>
+	status(201, { user: createUser(body) }));`
+		},
+		{
+			code: `new Elysia().post("/users", () => Response.json([user], { status: 201 }));`,
+			errors: [{ messageId: "responseJson" }],
+			name: "adds a destructured context to a handler without parameters",
+			output: `new Elysia().post("/users", ({ status }) => status(201, [user]));`
+		},
+		{
+			code: `new Elysia().post("/users", ({ query }: { query: Query }) =>
+	Response.json({ user: query.id }, { status: 201 }));`,
+			errors: [{ messageId: "responseJson" }],
+			name: "does not add status to a context pattern with a type annotation"
+		},
+		{
+			code: `new Elysia().post("/users", (context) =>
+	Response.json(context.body, { status: 201 }));`,
+			errors: [
+				{
+					messageId: "responseJson",
+					suggestions: [
+						{
+							data: { status: "201" },
+							messageId: "suggestStatus",
+							output: `new Elysia().post("/users", (context) =>
+	context.status(201, context.body));`
+						}
+					]
+				}
+			],
+			name: "only suggests a rewrite for a value that may not be an object"
+		},
+		{
+			code: `new Elysia().get("/greeting", () => Response.json("hello"));`,
+			errors: [
+				{
+					messageId: "responseJson",
+					suggestions: [
+						{
+							messageId: "suggestData",
+							output: `new Elysia().get("/greeting", () => "hello");`
+						}
+					]
+				}
+			],
+			name: "only suggests returning a string, which Elysia sends as text"
+		},
+		{
+			code: `new Elysia().delete("/users/:id", ({ params, status }) => {
+	removeUser(params.id);
+	return new Response(null, { status: 204 });
+});`,
+			errors: [{ messageId: "nativeResponse" }],
+			name: "rewrites an empty native response to status",
+			output: `new Elysia().delete("/users/:id", ({ params, status }) => {
+	removeUser(params.id);
+	return status(204);
+});`
+		},
+		{
+			code: `new Elysia().post("/users", ({ body }) =>
+	Response.json(body, { headers: { location: "/users/1" }, status: 201 }));`,
+			errors: [
+				{
+					messageId: "responseJson",
+					suggestions: [
+						{
+							data: { status: "201" },
+							messageId: "suggestStatus",
+							output: `new Elysia().post("/users", ({ body, status }) =>
+	status(201, body));`
+						}
+					]
+				}
+			],
+			name: "only suggests a rewrite that would drop headers"
+		},
+		{
+			code: `new Elysia().get("/users", ({ query }) =>
+	Response.json(listUsers(), { status: query.code }));`,
+			errors: [
+				{
+					messageId: "responseJson",
+					suggestions: [
+						{
+							data: { status: "query.code" },
+							messageId: "suggestStatus",
+							output: `new Elysia().get("/users", ({ query, status }) =>
+	status(query.code, listUsers()));`
+						}
+					]
+				}
+			],
+			name: "only suggests a rewrite for a computed status"
+		},
+		{
+			code: `const created = (user) => Response.json(user, { status: 201 });
+new Elysia().post("/users", ({ body }) => created(body));`,
+			errors: [{ messageId: "responseJson" }],
+			name: "does not rewrite a status inside a helper without the context"
+		},
+		{
+			code: `new Elysia().post("/users", ({ body }) => {
+	const status = "created";
+	return Response.json(body, { status: 201 });
+});`,
+			errors: [{ messageId: "responseJson" }],
+			name: "does not add a status parameter that a local would shadow"
 		}
 	],
 	valid: [
@@ -63,6 +194,14 @@ new Elysia().get("/download", shared).get("/json", shared);`,
 			name: "allows an exact native streaming boundary",
 			options: [{ allowNativeResponsePaths: ["/download"] }]
 		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia({ prefix: "/files" }).group("/v1", (app) =>
+	app.get("/download", () => new Response(stream))
+);`,
+			name: "matches the allowlist against the path the route registers",
+			options: [{ allowNativeResponsePaths: ["/download"] }]
+		},
 		{
 			code: `new Elysia().get("/inspect", async () => {
 	const text = await new Response(stream).text();
@@ -82,6 +221,11 @@ new Elysia().get("/download", shared).get("/json", shared);`,
 			code: `const handler = () => Response.json({ ok: true });
 router.mount("/protocol", handler);`,
 			name: "leaves mounted Fetch protocol handlers alone"
+		},
+		{
+			code: `import { Hono } from "hono";
+new Hono().post("/x", (c) => Response.json({ a: 1 }, { status: 201 }));`,
+			name: "leaves routes of other frameworks alone"
 		}
 	]
 });
@@ -0,0 +1,212 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { elysiaNoThrowError } from "../src/rules/elysia-no-throw-error";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+ruleTester.run("elysia-no-throw-error", elysiaNoThrowError, {
+	invalid: [
+		{
+			code: `new Elysia().get("/users/:id", ({ params }) => {
+	const user = findUser(params.id);
+	if (!user) throw new Error("User not found");
+	return user;
+});`,
+			errors: [
+				{
+					data: { name: "Error" },
+					messageId: "genericThrow",
+					suggestions: [
+						{
+							data: { code: "404" },
+							messageId: "suggestStatus",
+							output: `new Elysia().get("/users/:id", ({ params, status }) => {
+	const user = findUser(params.id);
+	if (!user) return status(404, "User not found");
+	return user;
+});`
+						}
+					]
+				}
+			],
+			name: "rejects a generic Error thrown from a route handler"
+		},
+		{
+			code: `new Elysia().post("/users", (context) => {
+	if (!context.body.email) throw TypeError("Email is required");
+	return createUser(context.body);
+});`,
+			errors: [
+				{
+					data: { name: "TypeError" },
+					messageId: "genericThrow",
+					suggestions: [
+						{
+							data: { code: "400" },
+							messageId: "suggestStatus",
+							output: `new Elysia().post("/users", (context) => {
+	if (!context.body.email) return context.status(400, "Email is required");
+	return createUser(context.body);
+});`
+						}
+					]
+				}
+			],
+			name: "rejects TypeError called without new"
+		},
+		{
+			code: `const loadUser = (id) => {
+	const user = findUser(id);
+	if (!user) throw new Error("User not found");
+	return user;
+};
+new Elysia().get("/users/:id", ({ params }) => loadUser(params.id));`,
+			errors: [{ data: { name: "Error" }, messageId: "genericThrow" }],
+			name: "follows same-file helpers without suggesting a return"
+		},
+		{
+			code: `class NotFoundError extends Error {}
+new Elysia()
+	.error({ NotFoundError })
+	.get("/users/:id", () => {
+		throw new NotFoundError("User not found");
+	});`,
+			errors: [
+				{
+					data: { name: "NotFoundError" },
+					messageId: "genericThrow",
+					suggestions: [
+						{
+							data: { code: "404" },
+							messageId: "suggestStatus",
+							output: `class NotFoundError extends Error {}
+new Elysia()
+	.error({ NotFoundError })
+	.get("/users/:id", ({ status }) => {
+		return status(404, "User not found");
+	});`
+						}
+					]
+				}
+			],
+			name: "rejects custom errors unless registered errors are allowed"
+		},
+		{
+			code: `class AppError extends Error {}
+class ConflictError extends AppError {}
+new Elysia().post("/users", () => {
+	throw new ConflictError("User already exists");
+});`,
+			errors: [
+				{
+					data: { name: "ConflictError" },
+					messageId: "unregisteredThrow",
+					suggestions: [
+						{
+							data: { code: "409" },
+							messageId: "suggestStatus",
+							output: `class AppError extends Error {}
+class ConflictError extends AppError {}
+new Elysia().post("/users", ({ status }) => {
+	return status(409, "User already exists");
+});`
+						}
+					]
+				}
+			],
+			name: "rejects an unregistered custom error",
+			options: [{ allowRegisteredErrors: true }]
+		},
+		{
+			code: `new Elysia().get("/report", () => {
+	try {
+		return buildReport();
+	} finally {
+		throw new Error(\`Report failed\`);
+	}
+});`,
+			errors: [
+				{
+					data: { name: "Error" },
+					messageId: "genericThrow",
+					suggestions: [
+						{
+							data: { code: "500" },
+							messageId: "suggestStatus",
+							output: `new Elysia().get("/report", ({ status }) => {
+	try {
+		return buildReport();
+	} finally {
+		return status(500, \`Report failed\`);
+	}
+});`
+						}
+					]
+				}
+			],
+			name: "suggests 500 when the message gives no hint"
+		}
+	],
+	valid: [
+		{
+			code: `class NotFoundError extends Error {}
+new Elysia()
+	.error({ NOT_FOUND: NotFoundError })
+	.get("/users/:id", ({ params }) => {
+		const user = findUser(params.id);
+		if (!user) throw new NotFoundError("User not found");
+		return user;
+	});`,
+			name: "allows custom errors registered on the same app",
+			options: [{ allowRegisteredErrors: true }]
+		},
+		{
+			code: `new Elysia().get("/users/:id", ({ params, status }) =>
+	findUser(params.id) ?? status(404, "User not found"));`,
+			name: "accepts status responses"
+		},
+		{
+			code: `new Elysia().get("/users", () => {
+	try {
+		if (!ready()) throw new Error("Not ready");
+		return listUsers();
+	} catch {
+		return [];
+	}
+});`,
+			name: "ignores throws caught inside the handler"
+		},
+		{
+			code: `const parse = (value) => {
+	if (!value) throw new Error("Missing value");
+	return value;
+};`,
+			name: "ignores functions that no route reaches"
+		},
+		{
+			code: `new Elysia().get("/users", () => {
+	throw status(401, "Unauthorized");
+});`,
+			name: "ignores thrown status responses"
+		},
+		{
+			code: `import express from "express";
+const app = express();
+app.get("/report", (req, res) => {
+	throw new Error("boom");
+});`,
+			name: "ignores Express handlers"
+		},
+		{
+			code: `import { Hono } from "hono";
+new Hono().get("/report", (context) => {
+	throw new Error("boom");
+});`,
+			name: "ignores Hono handlers"
+		}
+	]
+});
+
+console.log("elysia-no-throw-error: All tests passed!");
@@ -0,0 +1,156 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { elysiaPluginName } from "../src/rules/elysia-plugin-name";
+
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: parser.parser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
+ruleTester.run("elysia-plugin-name", elysiaPluginName, {
+	invalid: [
+		{
+			code: `import { Elysia } from "elysia";
+export const auth = new Elysia().derive(({ headers }) => ({ user: readUser(headers) }));`,
+			errors: [
+				{
+					data: { method: "derive", plugin: "auth" },
+					messageId: "missingName"
+				}
+			],
+			name: "rejects an exported plugin constant without a name"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+const createDatabase = (url: string) =>
+	new Elysia({ prefix: "/db" }).decorate("db", connect(url));
+export { createDatabase };`,
+			errors: [
+				{
+					data: { method: "decorate", plugin: "createDatabase" },
+					messageId: "missingName"
+				}
+			],
+			name: "rejects an exported plugin factory without a name"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export default function metrics() {
+	return new Elysia().onAfterHandle({ as: "global" }, recordMetrics);
+}`,
+			errors: [
+				{
+					data: { method: "onAfterHandle", plugin: "metrics" },
+					messageId: "missingName"
+				}
+			],
+			name: "treats global hooks as shared"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+const pluginName = "session";
+export const session = new Elysia({ name: pluginName }).state("visits", 0);`,
+			errors: [
+				{
+					data: { method: "state", plugin: "session" },
+					messageId: "nonLiteralName"
+				}
+			],
+			name: "requires the name to be a string literal"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export const auth = new Elysia({ name: "auth" }).derive(readSession);
+export const adminAuth = new Elysia({ name: "auth" }).resolve(loadAdmin);`,
+			errors: [
+				{
+					data: { location: "in this file", name: "auth" },
+					messageId: "duplicateName"
+				}
+			],
+			name: "rejects duplicate names in one file"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export function auth() {
+	return new Elysia().decorate("session", readSession);
+}`,
+			errors: [
+				{
+					data: { method: "decorate", plugin: "auth" },
+					messageId: "missingName"
+				}
+			],
+			name: "rejects an exported function declaration factory without a name"
+		}
+	],
+	valid: [
+		{
+			code: `import { Elysia } from "elysia";
+export const auth = new Elysia({ name: "auth" }).derive(readSession);`,
+			name: "accepts a named plugin"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+const local = new Elysia().decorate("clock", clock);
+export const routes = new Elysia().use(local).get("/time", ({ clock }) => clock.now());`,
+			name: "ignores plugins that are not exported"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export const health = new Elysia().get("/health", () => "ok");`,
+			name: "ignores exported route apps without shared state"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export const createCache = (store) => new Elysia({ name: "cache", seed: store }).decorate("cache", store);
+export const createOtherCache = (store) => new Elysia({ name: "cache", seed: store }).decorate("cache", store);`,
+			name: "accepts a repeated name distinguished by a seed"
+		}
+	]
+});
+
+typedRuleTester.run("elysia-plugin-name (typed)", elysiaPluginName, {
+	invalid: [
+		{
+			code: `import { Elysia } from "elysia";
+export const session = new Elysia({ name: "auth" }).derive(() => ({ user: "guest" }));`,
+			errors: [
+				{
+					data: {
+						location: "in plugins/auth.ts",
+						name: "auth"
+					},
+					messageId: "duplicateName"
+				}
+			],
+			filename: "src/backend/server.ts",
+			name: "rejects a name used by another module in the project"
+		}
+	],
+	valid: [
+		{
+			code: `import { Elysia } from "elysia";
+export const auth = new Elysia({ name: "auth" }).derive(() => ({
+	user: "guest"
+}));`,
+			filename: "src/backend/plugins/auth.ts",
+			name: "does not compare a module with itself"
+		}
+	]
+});
+
+console.log("elysia-plugin-name: All tests passed!");
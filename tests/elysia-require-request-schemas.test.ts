@@ -0,0 +1,147 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { elysiaRequireRequestSchemas } from "../src/rules/elysia-require-request-schemas";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+ruleTester.run("elysia-require-request-schemas", elysiaRequireRequestSchemas, {
+	invalid: [
+		{
+			code: `new Elysia().post("/users", ({ body }) => createUser(body));`,
+			errors: [
+				{
+					data: { method: "POST", part: "body", path: "/users" },
+					messageId: "missingSchema"
+				}
+			],
+			name: "rejects a body read without a body schema"
+		},
+		{
+			code: `new Elysia().get("/users/:id", ({ params: { id }, query }) => find(id, query), {
+	params: t.Object({ id: t.String() })
+});`,
+			errors: [
+				{
+					data: { method: "GET", part: "query", path: "/users/:id" },
+					messageId: "missingSchema"
+				}
+			],
+			name: "checks query, params, and headers independently"
+		},
+		{
+			code: `const update = (context) => save(context.body, context.headers);
+new Elysia().put("/users", update, { body: t.Object({ name: t.String() }) });`,
+			errors: [
+				{
+					data: { method: "PUT", part: "headers", path: "/users" },
+					messageId: "missingSchema"
+				}
+			],
+			name: "follows a same-file handler that reads the context object"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+new Elysia({ prefix: "/api" }).group("/v1", (app) =>
+	app.patch("/users", ({ body }) => body)
+);`,
+			errors: [
+				{
+					data: {
+						method: "PATCH",
+						part: "body",
+						path: "/api/v1/users"
+					},
+					messageId: "missingSchema"
+				}
+			],
+			name: "reports the full grouped path"
+		},
+		{
+			code: `new Elysia()
+	.post("/before", ({ body }) => body)
+	.guard({ body: t.Object({ name: t.String() }) })
+	.post("/after", ({ body }) => body);`,
+			errors: [
+				{
+					data: { method: "POST", part: "body", path: "/before" },
+					messageId: "missingSchema"
+				}
+			],
+			name: "applies a standalone guard only to later routes"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+export const users = (app: Elysia) => app.post("/users", ({ body }) => body);`,
+			errors: [
+				{
+					data: { method: "POST", part: "body", path: "/users" },
+					messageId: "missingSchema"
+				}
+			],
+			name: "checks plugins that take the application as a typed parameter"
+		},
+		{
+			code: `new Elysia().post("/users", (context) => {
+	const { body } = context;
+	return createUser(body);
+});`,
+			errors: [
+				{
+					data: { method: "POST", part: "body", path: "/users" },
+					messageId: "missingSchema"
+				}
+			],
+			name: "follows the context destructured inside the handler"
+		}
+	],
+	valid: [
+		{
+			code: `new Elysia().post("/users", ({ body }) => createUser(body), {
+	body: t.Object({ name: t.String() })
+});`,
+			name: "accepts a route hook schema"
+		},
+		{
+			code: `new Elysia().guard({ body: t.Object({ name: t.String() }) }, (app) =>
+	app.post("/users", ({ body }) => body).put("/users", ({ body }) => body)
+);`,
+			name: "accepts schemas from an enclosing guard"
+		},
+		{
+			code: `new Elysia()
+	.model({ user: t.Object({ name: t.String() }) })
+	.post("/users", ({ body }) => body, { body: "user" });`,
+			name: "accepts a model reference"
+		},
+		{
+			code: `new Elysia().get("/search", ({ body, set }) => body);`,
+			name: "does not require a body schema for methods without a body"
+		},
+		{
+			code: `new Elysia().post("/ping", ({ set }) => "pong");`,
+			name: "ignores handlers that never read request data"
+		},
+		{
+			code: `import { Router } from "express";
+const router = Router();
+router.post("/users", (req, res) => res.json(req.body));`,
+			name: "ignores Express routers"
+		},
+		{
+			code: `import { Hono } from "hono";
+new Hono().get("/users/:id", (context) => context.json(context.req.param("id")));`,
+			name: "ignores Hono routes"
+		},
+		{
+			code: `import { http, HttpResponse } from "msw";
+export const handlers = [
+	http.get("/user/:id", ({ params }) => HttpResponse.json({ id: params.id }))
+];`,
+			name: "ignores MSW handlers"
+		}
+	]
+});
+
+console.log("elysia-require-request-schemas: All tests passed!");
@@ -0,0 +1,100 @@
+import { RuleTester } from "@typescript-eslint/rule-tester";
+import parser from "typescript-eslint";
+import { elysiaRequireResponseSchema } from "../src/rules/elysia-require-response-schema";
+
+const ruleTester = new RuleTester({
+	languageOptions: { parser: parser.parser }
+});
+
+ruleTester.run("elysia-require-response-schema", elysiaRequireResponseSchema, {
+	invalid: [
+		{
+			code: `new Elysia().get("/users", () => listUsers());`,
+			errors: [{ data: { method: "GET" }, messageId: "missingResponse" }],
+			name: "rejects a route without a response schema"
+		},
+		{
+			code: `new Elysia().get("/users/:id", ({ params, status }) => {
+	const user = findUser(params.id);
+	if (!user) return status(404, "Not found");
+	return user;
+}, { response: { 200: User } });`,
+			errors: [
+				{
+					data: { code: "404", path: "/users/:id" },
+					messageId: "undeclaredStatus"
+				}
+			],
+			name: "rejects a status code missing from the response map"
+		},
+		{
+			code: `const forbidden = (status) => status(403, "Forbidden");
+const guarded = ({ status }) => forbidden(status);
+new Elysia().delete("/users/:id", guarded, { response: { 204: t.Void() } });`,
+			errors: [
+				{
+					data: { code: "403", path: "/users/:id" },
+					messageId: "undeclaredStatus"
+				}
+			],
+			name: "follows same-file helpers"
+		},
+		{
+			code: `new Elysia().post("/users", ({ status }) => status(201, createUser()), {
+	response: User
+});`,
+			errors: [
+				{
+					data: { code: "201", path: "/users" },
+					messageId: "undeclaredStatus"
+				}
+			],
+			name: "treats a single response schema as the 200 response"
+		}
+	],
+	valid: [
+		{
+			code: `new Elysia().get("/users/:id", ({ params, status }) =>
+	findUser(params.id) ?? status(404, "Not found"), {
+	response: { 200: User, 404: t.String() }
+});`,
+			name: "accepts declared status codes"
+		},
+		{
+			code: `new Elysia().guard({ response: { 200: User, 401: t.String() } }, (app) =>
+	app.get("/me", ({ status }) => currentUser() ?? status(401, "Unauthorized"))
+);`,
+			name: "accepts a response map from an enclosing guard"
+		},
+		{
+			code: `new Elysia().get("/users", () => listUsers(), {
+	response: { ...sharedResponses, 200: t.Array(User) }
+});`,
+			name: "does not guess at a response map built with spreads"
+		},
+		{
+			code: `new Elysia().mount("/legacy", legacy.fetch);`,
+			name: "ignores mounted Fetch handlers"
+		},
+		{
+			code: `import express from "express";
+const app = express();
+app.get("/users", (req, res) => res.json(listUsers()));`,
+			name: "ignores Express routes"
+		},
+		{
+			code: `import { Hono } from "hono";
+new Hono().get("/users", (context) => context.json(listUsers()));`,
+			name: "ignores Hono routes"
+		},
+		{
+			code: `import { http, HttpResponse } from "msw";
+export const handlers = [
+	http.get("/user/:id", ({ params }) => HttpResponse.json({ id: params.id }))
+];`,
+			name: "ignores MSW handlers"
+		}
+	]
+});
+
+console.log("elysia-require-response-schema: All tests passed!");
@@ -1,11 +1,25 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import { RuleTester } from "@typescript-eslint/rule-tester";
 import parser from "typescript-eslint";
 import { elysiaRouteBoundaries } from "../src/rules/elysia-route-boundaries";
 
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
 const ruleTester = new RuleTester({
 	languageOptions: { parser: parser.parser }
 });
 
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: parser.parser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
 ruleTester.run("elysia-route-boundaries", elysiaRouteBoundaries, {
 	invalid: [
 		{
@@ -79,6 +93,66 @@ export type Server = typeof Application;`,
 const result = builder.get("value");`,
 			filename: "src/backend/server.ts",
 			name: "ignores non-route fluent builders"
+		},
+		{
+			code: `import { Elysia } from "elysia";
+import { legacyRoutes } from "./plugins/legacy";
+export const server = new Elysia().use(legacyRoutes);`,
+			filename: "src/backend/server.ts",
+			name: "falls back to same-file resolution without type information"
+		}
+	]
+});
+
+typedRuleTester.run("elysia-route-boundaries (typed)", elysiaRouteBoundaries, {
+	invalid: [
+		{
+			code: `import { Elysia } from "elysia";
+import { legacyRoutes } from "./plugins/legacy";
+import { usersRoutes } from "./routes/users";
+export const server = new Elysia().use([usersRoutes, legacyRoutes]);`,
+			errors: [
+				{
+					data: {
+						directory: "src/backend/routes",
+						plugin: "legacyRoutes"
+					},
+					messageId: "routeModuleLocation"
+				}
+			],
+			filename: "src/backend/server.ts",
+			name: "rejects installing a module that registers routes elsewhere"
+		},
+		{
+			code: `import { createServer } from "./app";
+const server = createServer();
+export type Server = typeof server;`,
+			errors: [{ messageId: "terminalGraphType" }],
+			filename: "src/backend/server.ts",
+			name: "follows an imported application factory to the terminal graph"
+		},
+		{
+			code: `import { usersRoutes } from "./routes/users";
+export type Users = typeof usersRoutes;`,
+			errors: [{ messageId: "routeContractLocation" }],
+			filename: "src/backend/server.ts",
+			name: "classifies an imported route surface"
+		}
+	],
+	valid: [
+		{
+			code: `import { Elysia } from "elysia";
+import { auth } from "./plugins/auth";
+import { usersRoutes } from "./routes/users";
+export const server = new Elysia().use([auth, usersRoutes]);`,
+			filename: "src/backend/server.ts",
+			name: "allows plugins and route surfaces from the route directories"
+		},
+		{
+			code: `import { usersRoutes } from "./users";
+export type Users = typeof usersRoutes;`,
+			filename: "src/backend/routes/admin.ts",
+			name: "allows a route directory to contract an imported route surface"
 		}
 	]
 });
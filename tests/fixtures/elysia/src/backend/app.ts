@@ -0,0 +1,5 @@
+import { Elysia } from "elysia";
+
+export const createServer = () => new Elysia({ name: "server" });
+
+export const sharedApp = new Elysia({ name: "shared" });
@@ -0,0 +1,3 @@
+import { drizzle } from "drizzle-orm/node-postgres";
+
+export const database = drizzle("postgres://localhost/app");
@@ -0,0 +1,46 @@
+declare module "drizzle-orm" {
+	export class Column<Data = unknown> {
+		readonly data: Data;
+	}
+	export type SQL = { readonly query: string };
+	export const sql: (
+		strings: TemplateStringsArray,
+		...values: unknown[]
+	) => SQL;
+}
+
+declare module "drizzle-orm/pg-core" {
+	import { Column, SQL } from "drizzle-orm";
+
+	type Query = Promise<unknown[]> & {
+		from: (table: unknown) => Query;
+		set: (values: unknown) => Query;
+		values: (values: unknown) => Query;
+		where: (condition: SQL) => Query;
+	};
+
+	export class PgColumn<Data = unknown> extends Column<Data> {}
+	export class PgDatabase {
+		delete: (table: unknown) => Query;
+		insert: (table: unknown) => Query;
+		select: () => Query;
+		transaction: <Result>(
+			run: (tx: PgTransaction) => Promise<Result>
+		) => Promise<Result>;
+		update: (table: unknown) => Query;
+	}
+	export class PgTransaction extends PgDatabase {}
+	export const integer: (name?: string) => PgColumn<number>;
+	export const pgTable: <Columns extends Record<string, PgColumn>>(
+		name: string,
+		columns: Columns
+	) => Columns;
+	export const text: (name?: string) => PgColumn<string>;
+}
+
+declare module "drizzle-orm/node-postgres" {
+	import { PgDatabase } from "drizzle-orm/pg-core";
+
+	export class NodePgDatabase extends PgDatabase {}
+	export const drizzle: (url: string) => NodePgDatabase;
+}
@@ -0,0 +1,5 @@
+import { Elysia } from "elysia";
+
+export const auth = new Elysia({ name: "auth" }).derive(() => ({
+	user: "guest"
+}));
@@ -0,0 +1,6 @@
+import { Elysia } from "elysia";
+
+export const legacyRoutes = new Elysia({ name: "legacy" }).get(
+	"/legacy",
+	() => "legacy"
+);
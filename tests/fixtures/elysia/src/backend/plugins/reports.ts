@@ -0,0 +1,6 @@
+import { Elysia } from "elysia";
+
+export const createReports = () =>
+	new Elysia({ prefix: "/reports" }).group("/daily", (app) =>
+		app.get("/:date", () => [])
+	);
@@ -0,0 +1,8 @@
+import { Elysia } from "elysia";
+
+export const usersRoutes = new Elysia({ name: "users" }).get(
+	"/users",
+	() => []
+);
+
+export type UsersRoutes = typeof usersRoutes;
@@ -0,0 +1,3 @@
+import { treaty } from "@elysiajs/eden";
+
+export const server = treaty<unknown>("localhost:3000");
@@ -0,0 +1,16 @@
+declare module "@elysiajs/eden" {
+	type Response<Data> = Promise<{ data: Data | null; error: unknown }>;
+	type Endpoint = {
+		get: () => Response<string[]>;
+		post: (body: { name: string }) => Response<string>;
+	};
+
+	export namespace Treaty {
+		type Create<App> = {
+			app: App;
+			users: Endpoint & ((params: { id: string }) => Endpoint);
+		};
+	}
+
+	export const treaty: <App>(domain: string) => Treaty.Create<App>;
+}
@@ -29,12 +29,185 @@ ruleTester.run("no-unsafe-schema-types", noUnsafeSchemaTypes, {
 		{
 			code: `declare const jsonb: (name: string) => { $type<T>(): unknown }; const data = jsonb("data").$type<any>();`,
 			errors: [{ messageId: "drizzleType" }]
+		},
+		{
+			code: `import { t } from "elysia"; const body = t.Object({ id: t.String() }, { additionalProperties: true });`,
+			errors: [{ messageId: "additionalProperties" }]
+		},
+		{
+			code: `import { t } from "elysia"; const meta = t.Record(t.String(), t.Any());`,
+			errors: [
+				{
+					data: { library: "TypeBox", method: "Record" },
+					messageId: "unboundedRecord"
+				}
+			]
+		},
+		{
+			code: `import { z } from "zod"; const body = z.object({ data: z.any(), meta: z.unknown() });`,
+			errors: [
+				{
+					data: { library: "Zod", method: "any()" },
+					messageId: "validatorEscape"
+				},
+				{
+					data: { library: "Zod", method: "unknown()" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import { z } from "zod"; const body = z.object({ id: z.string() }).strict().passthrough();`,
+			errors: [
+				{
+					data: { library: "Zod", method: "passthrough()" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import { z } from "zod/v4"; const body = z.object({ id: z.string() }).loose();`,
+			errors: [
+				{
+					data: { library: "Zod", method: "loose()" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import { z } from "zod"; const body = z.object({ id: z.string() }).catchall(z.unknown());`,
+			errors: [
+				{
+					data: { library: "Zod", method: "catchall" },
+					messageId: "unboundedRecord"
+				}
+			]
+		},
+		{
+			code: `import z from "zod"; const body = z.object({ data: z.any() });`,
+			errors: [
+				{
+					data: { library: "Zod", method: "any()" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import * as z from "zod/v4"; const meta = z.record(z.string(), z.any());`,
+			errors: [
+				{
+					data: { library: "Zod", method: "record" },
+					messageId: "unboundedRecord"
+				}
+			]
+		},
+		{
+			code: `import * as v from "valibot"; const body = v.object({ data: v.unknown() });`,
+			errors: [
+				{
+					data: { library: "Valibot", method: "unknown()" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import { any as anything, object } from "valibot"; const body = object({ data: anything() });`,
+			errors: [
+				{
+					data: { library: "Valibot", method: "any()" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import { type } from "arktype"; const body = type({ data: "unknown", tags: "string[]" }); const meta = type.any;`,
+			errors: [
+				{
+					data: { library: "ArkType", method: '"unknown"' },
+					messageId: "validatorEscape"
+				},
+				{
+					data: { library: "ArkType", method: "type.any" },
+					messageId: "validatorEscape"
+				}
+			]
+		},
+		{
+			code: `import { z } from "zod"; import { t } from "elysia"; const body = z.any(); const query = t.Unknown();`,
+			errors: [
+				{ data: { method: "Unknown" }, messageId: "typeboxEscape" }
+			],
+			name: "only checks the selected libraries",
+			options: [{ libraries: ["typebox"] }]
+		},
+		{
+			code: `declare const jsonb: (name: string) => { $type<T>(): unknown }; interface Settings { theme: string } const settings = jsonb("settings").$type<Settings>();`,
+			errors: [{ messageId: "untiedDrizzleType" }],
+			name: "requires schema-derived $type arguments when enabled",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `declare const jsonb: (name: string) => { $type<T>(): unknown }; type Settings = { theme: string }; type Stored = Settings; const settings = jsonb("settings").$type<Stored>();`,
+			errors: [{ messageId: "untiedDrizzleType" }],
+			name: "follows aliases that do not reach a schema",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `import { z } from "zod"; declare const jsonb: (name: string) => { $type<T>(): unknown }; const Card = z.object({ last4: z.string() }); const method = jsonb("method").$type<z.infer<typeof Card> | { iban: string }>();`,
+			errors: [{ messageId: "untiedDrizzleType" }],
+			name: "rejects a union with a hand-written member",
+			options: [{ requireSchemaTypes: true }]
 		}
 	],
 	valid: [
 		`import { t } from "elysia"; const body = t.Object({ value: t.String() });`,
 		`declare const jsonb: (name: string) => { $type<T>(): unknown }; type ProfileData = { strengths?: string[] }; const data = jsonb("data").$type<ProfileData>();`,
-		`const service = { Unknown: () => "known" }; service.Unknown();`
+		`const service = { Unknown: () => "known" }; service.Unknown();`,
+		`import { t } from "elysia"; const body = t.Object({ id: t.String() }, { additionalProperties: false });`,
+		`import { t } from "elysia"; const scores = t.Record(t.String(), t.Number());`,
+		`import { z } from "zod"; const body = z.object({ id: z.string() }).strict();`,
+		`import { type } from "arktype"; const body = type({ id: "string.uuid", name: "string" });`,
+		`import { type } from "arktype"; const body = type({ status: "'unknown' | 'ok'" });`,
+		`const z = { any: () => null }; z.any();`,
+		{
+			code: `import { z } from "zod"; const webhook = z.object({ event: z.string() }).passthrough();`,
+			name: "accepts allowed methods",
+			options: [{ allowMethods: ["zod.passthrough"] }]
+		},
+		{
+			code: `import { z } from "zod"; const meta = z.record(z.string(), z.unknown());`,
+			name: "accepts a record of an allowed method",
+			options: [{ allowMethods: ["zod.unknown"] }]
+		},
+		{
+			code: `import { t, type Static } from "elysia"; declare const jsonb: (name: string) => { $type<T>(): unknown }; const Settings = t.Object({ theme: t.String() }); type Settings = Static<typeof Settings>; const settings = jsonb("settings").$type<Settings>();`,
+			name: "accepts TypeBox Static through a same-file alias",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `import { z } from "zod"; declare const jsonb: (name: string) => { $type<T>(): unknown }; const Settings = z.object({ theme: z.string() }); const settings = jsonb("settings").$type<z.infer<typeof Settings>>();`,
+			name: "accepts z.infer",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `import { type } from "arktype"; declare const jsonb: (name: string) => { $type<T>(): unknown }; const Settings = type({ theme: "string" }); export type StoredSettings = typeof Settings.$infer; const settings = jsonb("settings").$type<StoredSettings>();`,
+			name: "accepts $infer through an exported alias",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `import { t, type Static } from "elysia"; declare const jsonb: (name: string) => { $type<T>(): unknown }; const Tag = t.Object({ label: t.String() }); const tags = jsonb("tags").$type<Static<typeof Tag>[]>(); const pinned = jsonb("pinned").$type<ReadonlyArray<Static<typeof Tag>>>();`,
+			name: "accepts arrays of schema-derived types",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `import { z } from "zod"; declare const jsonb: (name: string) => { $type<T>(): unknown }; const Card = z.object({ last4: z.string() }); const Bank = z.object({ iban: z.string() }); const method = jsonb("method").$type<z.infer<typeof Card> | z.infer<typeof Bank> | null>();`,
+			name: "accepts unions of schema-derived types",
+			options: [{ requireSchemaTypes: true }]
+		},
+		{
+			code: `declare const jsonb: (name: string) => { $type<T>(): unknown }; interface Settings { theme: string } const settings = jsonb("settings").$type<Settings>();`,
+			name: "does not require schema types by default"
+		}
 	]
 });
 
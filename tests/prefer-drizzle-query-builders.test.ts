@@ -1,7 +1,11 @@
+import path from "node:path";
+import { fileURLToPath } from "node:url";
 import { RuleTester } from "@typescript-eslint/rule-tester";
 import tsParser from "@typescript-eslint/parser";
 import { preferDrizzleQueryBuilders } from "../src/rules/prefer-drizzle-query-builders";
 
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+
 const ruleTester = new RuleTester({
 	languageOptions: {
 		ecmaVersion: 2020,
@@ -10,17 +14,102 @@ const ruleTester = new RuleTester({
 	}
 });
 
+const typedRuleTester = new RuleTester({
+	languageOptions: {
+		parser: tsParser,
+		parserOptions: {
+			project: "./tsconfig.json",
+			tsconfigRootDir: path.join(dirname, "fixtures", "elysia")
+		}
+	}
+});
+
 ruleTester.run("prefer-drizzle-query-builders", preferDrizzleQueryBuilders, {
 	invalid: [
 		{
 			code: `import { sql } from "drizzle-orm"; const where = sql\`\${users.id} = \${id}\`;`,
-			errors: [{ data: { builder: "eq" }, messageId: "preferBuilder" }]
+			errors: [{ data: { builder: "eq" }, messageId: "preferBuilder" }],
+			output: `import { sql, eq } from "drizzle-orm"; const where = eq(users.id, id);`
 		},
 		{
 			code: `import { sql as query } from "drizzle-orm"; const where = query\`\${users.deletedAt} is null\`;`,
 			errors: [
 				{ data: { builder: "isNull" }, messageId: "preferBuilder" }
-			]
+			],
+			output: `import { sql as query, isNull } from "drizzle-orm"; const where = isNull(users.deletedAt);`
+		},
+		{
+			code: `import { eq as equals, sql } from "drizzle-orm"; const where = sql\`\${users.id} = \${id} and (\${users.role} <> \${role} or \${users.deletedAt} is not null)\`;`,
+			errors: [{ data: { builder: "and" }, messageId: "preferBuilder" }],
+			output: `import { eq as equals, sql, and, or, ne, isNotNull } from "drizzle-orm"; const where = and(equals(users.id, id), or(ne(users.role, role), isNotNull(users.deletedAt)));`
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const where = sql\`\${orders.total} not between \${low} and \${high}\`;`,
+			errors: [
+				{ data: { builder: "notBetween" }, messageId: "preferBuilder" }
+			],
+			output: `import { sql, notBetween } from "drizzle-orm"; const where = notBetween(orders.total, low, high);`
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const where = sql\`not (\${users.name} like \${pattern})\`;`,
+			errors: [{ data: { builder: "not" }, messageId: "preferBuilder" }],
+			output: `import { sql, not, like } from "drizzle-orm"; const where = not(like(users.name, pattern));`
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const where = sql\`not exists (\${posts})\`;`,
+			errors: [
+				{ data: { builder: "notExists" }, messageId: "preferBuilder" }
+			],
+			output: `import { sql, notExists } from "drizzle-orm"; const where = notExists(posts);`
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const total = sql<number>\`count(*)\`;`,
+			errors: [
+				{ data: { builder: "count" }, messageId: "preferBuilder" }
+			],
+			output: `import { sql, count } from "drizzle-orm"; const total = count();`
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const authors = sql\`count(distinct \${posts.authorId})\`;`,
+			errors: [
+				{
+					data: { builder: "countDistinct" },
+					messageId: "preferBuilder"
+				}
+			],
+			output: `import { sql, countDistinct } from "drizzle-orm"; const authors = countDistinct(posts.authorId);`
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const where = sql\`\${id} in (\${ids})\`;`,
+			errors: [
+				{ data: { builder: "inArray" }, messageId: "preferBuilder" }
+			],
+			name: "does not rewrite operands that are not shaped like columns",
+			output: null
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const eq = 1; const where = sql\`\${users.id} = \${id}\`;`,
+			errors: [{ data: { builder: "eq" }, messageId: "preferBuilder" }],
+			name: "does not rewrite when the builder name is taken",
+			output: null
+		},
+		{
+			code: `import { sql } from "drizzle-orm"; const byId = (input) => sql\`\${input.id} = \${users.id}\`;`,
+			errors: [
+				{
+					data: { builder: "eq" },
+					messageId: "preferBuilder",
+					suggestions: [
+						{
+							data: { builder: "eq" },
+							messageId: "suggestBuilder",
+							output: `import { sql, eq } from "drizzle-orm"; const byId = (input) => eq(input.id, users.id);`
+						}
+					]
+				}
+			],
+			name: "only suggests rewriting a member of a parameter",
+			output: null
 		},
 		{
 			code: `import { sql } from "drizzle-orm"; const fragment = sql.raw(input);`,
@@ -29,9 +118,73 @@ ruleTester.run("prefer-drizzle-query-builders", preferDrizzleQueryBuilders, {
 	],
 	valid: [
 		`import { eq } from "drizzle-orm"; const where = eq(users.id, id);`,
-		`import { sql } from "drizzle-orm"; const count = sql<number>\`count(*)\`;`,
+		`import { sql } from "drizzle-orm"; const total = sql<number>\`sum(\${orders.total})\`;`,
+		`import { sql } from "drizzle-orm"; const value = sql\`\${users.data}->>'name' = \${name}\`;`,
+		`import { sql } from "drizzle-orm"; const rank = sql\`count \${users.id} = \${id}\`;`,
 		`import { sql } from "other-package"; const fragment = sql\`\${left} = \${right}\`;`
 	]
 });
 
+typedRuleTester.run(
+	"prefer-drizzle-query-builders (typed)",
+	preferDrizzleQueryBuilders,
+	{
+		invalid: [
+			{
+				code: `import { sql } from "drizzle-orm";
+import { users } from "./schema";
+export const byName = (name: string) => sql\`\${users.name} = \${name}\`;`,
+				errors: [
+					{ data: { builder: "eq" }, messageId: "preferBuilder" }
+				],
+				filename: "src/backend/db/queries.ts",
+				name: "rewrites comparisons on Drizzle columns",
+				output: `import { sql, eq } from "drizzle-orm";
+import { users } from "./schema";
+export const byName = (name: string) => eq(users.name, name);`
+			},
+			{
+				code: `import { sql } from "drizzle-orm";
+import { users } from "./schema";
+export const named = (column = users.name) => sql\`\${column} is not null\`;`,
+				errors: [
+					{
+						data: { builder: "isNotNull" },
+						messageId: "preferBuilder"
+					}
+				],
+				filename: "src/backend/db/queries.ts",
+				name: "uses types to accept columns that are not member expressions",
+				output: `import { sql, isNotNull } from "drizzle-orm";
+import { users } from "./schema";
+export const named = (column = users.name) => isNotNull(column);`
+			},
+			{
+				code: `import { sql } from "drizzle-orm";
+const settings = { limit: 10 };
+export const check = (value: number) => sql\`\${settings.limit} > \${value}\`;`,
+				errors: [
+					{
+						data: { builder: "gt" },
+						messageId: "preferBuilder",
+						suggestions: []
+					}
+				],
+				filename: "src/backend/db/queries.ts",
+				name: "reports without rewriting when the left operand is not a column",
+				output: null
+			}
+		],
+		valid: [
+			{
+				code: `import { eq } from "drizzle-orm";
+import { users } from "./schema";
+export const byName = (name: string) => eq(users.name, name);`,
+				filename: "src/backend/db/queries.ts",
+				name: "accepts the typed builder"
+			}
+		]
+	}
+);
+
 console.log("prefer-drizzle-query-builders: All tests passed!");
@@ -0,0 +1,98 @@
+import { describe, expect, test } from "bun:test";
+import { type ESLint, Linter } from "eslint";
+import parser from "typescript-eslint";
+import plugin from "../src";
+
+// The plugin uses @typescript-eslint's compatible rule types; ESLint 10's types are stricter.
+// eslint-disable-next-line @typescript-eslint/consistent-type-assertions
+const eslintPlugin = plugin as unknown as ESLint.Plugin;
+
+const aliasCases: Array<{
+	alias: string;
+	code: string;
+	filename: string;
+	// The message id the alias reports with, when it differs from the target's.
+	messageId?: string;
+	options: unknown[];
+	target: string;
+}> = [
+	{
+		alias: "eden-requires-react-query",
+		code: `import { treaty } from "@elysiajs/eden";
+const client = treaty("localhost:3000");
+const load = () => client.users.get();`,
+		filename: "screen.tsx",
+		messageId: "outsideReactQuery",
+		options: [{ clients: [], modules: [] }],
+		target: "eden-requires-tanstack-query"
+	},
+	{
+		alias: "max-jsxnesting",
+		code: `const C = () => <div><section><span /></section></div>;`,
+		filename: "component.tsx",
+		options: [1],
+		target: "max-jsx-nesting"
+	},
+	{
+		alias: "seperate-style-files",
+		code: `const wrapper: CSSProperties = { display: "flex" };`,
+		filename: "component.tsx",
+		options: [],
+		target: "separate-style-files"
+	}
+];
+
+const verify = (
+	rule: string,
+	{ code, filename, options }: (typeof aliasCases)[number]
+) =>
+	new Linter({ configType: "flat" })
+		.verify(
+			code,
+			[
+				{
+					files: ["**/*.tsx"],
+					languageOptions: {
+						parser: parser.parser,
+						parserOptions: { ecmaFeatures: { jsx: true } }
+					},
+					plugins: { absolute: eslintPlugin },
+					rules: { [`absolute/${rule}`]: ["error", ...options] }
+				}
+			],
+			{ filename }
+		)
+		.map(({ ruleId, ...message }) => ({
+			...message,
+			ruleId: ruleId?.replace(`absolute/${rule}`, "absolute/<rule>")
+		}));
+
+describe("deprecated rule aliases", () => {
+	for (const aliasCase of aliasCases) {
+		const { alias, messageId, target } = aliasCase;
+
+		test(`${alias} reports identically to ${target}`, () => {
+			const targetMessages = verify(target, aliasCase);
+
+			expect(targetMessages.length).toBeGreaterThan(0);
+			expect(verify(alias, aliasCase)).toEqual(
+				targetMessages.map((message) => ({
+					...message,
+					messageId: messageId ?? message.messageId
+				}))
+			);
+		});
+
+		test(`${alias} is deprecated in favor of ${target}`, () => {
+			const meta = plugin.rules[alias]?.meta;
+
+			expect(meta?.deprecated).toMatchObject({
+				replacedBy: [{ rule: { name: target } }]
+			});
+			expect(meta?.replacedBy).toEqual([target]);
+			expect(meta?.docs?.url).toBe(
+				`https://absolutejs.com/documentation/eslint-${target}`
+			);
+		});
+	}
+});
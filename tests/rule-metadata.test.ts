@@ -0,0 +1,126 @@
+import { readdirSync, readFileSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, test } from "bun:test";
+import plugin from "../src";
+import {
+	type RuleMetadataSubject,
+	validateRuleMetadata
+} from "../src/utils/ruleMetadata";
+
+const dirname = path.dirname(fileURLToPath(import.meta.url));
+const rulesDirectory = path.join(dirname, "..", "src", "rules");
+
+// Published rule names that predate the file naming convention.
+const PUBLISHED_NAMES: Record<string, string> = {
+	"no-explicit-return-types": "no-explicit-return-type"
+};
+
+const isRuleModule = (value: unknown): value is RuleMetadataSubject["rule"] =>
+	typeof value === "object" &&
+	value !== null &&
+	"create" in value &&
+	"meta" in value;
+
+const ruleFiles = readdirSync(rulesDirectory)
+	.filter((file) => file.endsWith(".ts"))
+	.map((file) => path.basename(file, ".ts"));
+
+const registeredRules = Object.entries(plugin.rules);
+
+describe("rule metadata", () => {
+	for (const file of ruleFiles) {
+		test(`${file}: module is registered under its rule name`, async () => {
+			const exports: Record<string, unknown> = await import(
+				path.join(rulesDirectory, `${file}.ts`)
+			);
+			const rules = Object.values(exports).filter(isRuleModule);
+			const [rule] = rules;
+
+			expect(rules).toHaveLength(1);
+			expect(rule?.name).toBe(PUBLISHED_NAMES[file] ?? file);
+			expect(
+				registeredRules
+					.filter(([, registered]) => registered === rule)
+					.map(([key]) => key)
+			).toEqual([PUBLISHED_NAMES[file] ?? file]);
+		});
+	}
+
+	for (const [key, rule] of registeredRules) {
+		test(`${key}: metadata is complete and consistent`, () => {
+			// Deprecated aliases share their replacement's implementation.
+			const [replacement = key] = rule.meta.replacedBy ?? [];
+			const file = Object.entries(PUBLISHED_NAMES).find(
+				([, name]) => name === replacement
+			)?.[0];
+			const source = readFileSync(
+				path.join(rulesDirectory, `${file ?? replacement}.ts`),
+				"utf8"
+			);
+
+			expect(validateRuleMetadata({ key, rule, source })).toEqual([]);
+		});
+	}
+
+	test("the plugin identifies itself from package.json", () => {
+		const packageJson: { name: string; version: string } = JSON.parse(
+			readFileSync(path.join(dirname, "..", "package.json"), "utf8")
+		);
+
+		expect(plugin.meta).toEqual({
+			name: packageJson.name,
+			namespace: "absolute",
+			version: packageJson.version
+		});
+	});
+});
+
+describe("validateRuleMetadata", () => {
+	const rule: RuleMetadataSubject["rule"] = {
+		defaultOptions: [{ max: 1 }],
+		meta: {
+			docs: { description: "" },
+			messages: { tooMany: "Found {{count}}, allowed {{max}}." },
+			schema: []
+		},
+		name: "sample-rule"
+	};
+
+	test("reports each metadata gap", () => {
+		const source = `context.report({
+	data: { count: 2, extra: true },
+	fix: (fixer) => fixer.remove(node),
+	messageId: "tooMany",
+	node
+});`;
+
+		expect(validateRuleMetadata({ key: "sample", rule, source })).toEqual([
+			'registry key "sample" does not match rule name "sample-rule"',
+			"meta.docs.description is missing",
+			"defaultOptions are set but meta.schema is empty",
+			"reports emit a fix but meta.fixable is not set",
+			'message "tooMany" uses {{max}} but the report passes no "max" data',
+			'report data "extra" is not a placeholder in message "tooMany"'
+		]);
+	});
+
+	test("skips placeholder checks when data is not a literal object", () => {
+		const source = `context.report({ data: details, messageId: "tooMany", node });`;
+
+		expect(
+			validateRuleMetadata({
+				key: "sample-rule",
+				rule: {
+					...rule,
+					meta: {
+						...rule.meta,
+						docs: { description: "Sample." },
+						schema: [{ type: "object" }]
+					}
+				},
+				source
+			})
+		).toEqual([]);
+	});
+});
@@ -1,5 +1,5 @@
 import { RuleTester } from "@typescript-eslint/rule-tester";
-import { seperateStyleFiles } from "../src/rules/seperate-style-files";
+import { separateStyleFiles } from "../src/rules/separate-style-files";
 import parser from "typescript-eslint";
 
 const ruleTester = new RuleTester({
@@ -11,7 +11,7 @@ const ruleTester = new RuleTester({
 	}
 });
 
-ruleTester.run("seperate-style-files", seperateStyleFiles, {
+ruleTester.run("separate-style-files", separateStyleFiles, {
 	invalid: [
 		{
 			code: `const wrapper: CSSProperties = { display: "flex" };`,
@@ -81,4 +81,4 @@ ruleTester.run("seperate-style-files", seperateStyleFiles, {
 	]
 });
 
-console.log("seperate-style-files: All tests passed!");
+console.log("separate-style-files: All tests passed!");